@@ -0,0 +1,11 @@
+// Response type of CountryByCode.mock.json
+// Hand-written fixture of variable matching: not recorded in the HAR yet
+// (npm run mock:record:interactive, then npm run mock:extract replaces it with a recording)
+// Operation: CountryByCode
+import type { Country } from "./generated-types";
+
+export interface CountryByCodeResponse {
+  data: {
+    country: Partial<Country> | null;
+  };
+}
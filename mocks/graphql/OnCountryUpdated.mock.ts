@@ -0,0 +1,10 @@
+// Response type of OnCountryUpdated.mock.json
+// Hand-written: subscriptions run over WebSocket and are not recorded in the HAR
+// Operation: OnCountryUpdated
+import type { Country } from "./generated-types";
+
+export interface OnCountryUpdatedResponse {
+  data: {
+    countryUpdated: Partial<Country>;
+  };
+}
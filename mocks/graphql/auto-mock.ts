@@ -0,0 +1,272 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  FieldNode,
+  GraphQLObjectType,
+  GraphQLOutputType,
+  GraphQLSchema,
+  Kind,
+  SelectionSetNode,
+  buildClientSchema,
+  buildSchema,
+  getNamedType,
+  executeSync,
+  isAbstractType,
+  isEnumType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  valueFromASTUntyped,
+} from "graphql";
+import { ParsedOperation } from "./graphql-document";
+import { mergeSelectionSets, shouldInclude } from "./response-projection";
+import { GraphQLFormattedError, errorResponse, graphqlError } from "./mock-errors";
+
+type Variables = Record<string, unknown>;
+
+/**
+ * Committed schema snapshot, regenerated by `npm run mock:codegen`
+ * An introspection result (`schema.json`) is used when present instead
+ */
+const SCHEMA_DIR = __dirname;
+const SDL_PATH = path.join(SCHEMA_DIR, "schema.graphql");
+const INTROSPECTION_PATH = path.join(SCHEMA_DIR, "schema.json");
+
+/**
+ * Realistic sample records per schema type
+ * Auto-mocked objects pick one of these (seeded) and fill the rest generically
+ */
+const SAMPLE_DATA: Record<string, Record<string, unknown>[]> = {
+  Country: [
+    { code: "US", name: "United States", native: "United States", emoji: "🇺🇸", emojiU: "U+1F1FA U+1F1F8", capital: "Washington D.C.", currency: "USD", currencies: ["USD"], phone: "1", phones: ["1"], awsRegion: "us-east-1" },
+    { code: "IN", name: "India", native: "भारत", emoji: "🇮🇳", emojiU: "U+1F1EE U+1F1F3", capital: "New Delhi", currency: "INR", currencies: ["INR"], phone: "91", phones: ["91"], awsRegion: "ap-south-1" },
+    { code: "GB", name: "United Kingdom", native: "United Kingdom", emoji: "🇬🇧", emojiU: "U+1F1EC U+1F1E7", capital: "London", currency: "GBP", currencies: ["GBP"], phone: "44", phones: ["44"], awsRegion: "eu-west-2" },
+  ],
+  Continent: [
+    { code: "NA", name: "North America" },
+    { code: "AS", name: "Asia" },
+    { code: "EU", name: "Europe" },
+  ],
+  Language: [
+    { code: "en", name: "English", native: "English", rtl: false },
+    { code: "hi", name: "Hindi", native: "हिन्दी", rtl: false },
+    { code: "ar", name: "Arabic", native: "العربية", rtl: true },
+  ],
+  State: [
+    { code: "CA", name: "California" },
+    { code: "MH", name: "Maharashtra" },
+    { code: "ENG", name: "England" },
+  ],
+  Subdivision: [
+    { code: "US-CA", name: "California", emoji: null },
+    { code: "IN-MH", name: "Maharashtra", emoji: null },
+    { code: "GB-ENG", name: "England", emoji: "🏴󠁧󠁢󠁥󠁮󠁧󠁿" },
+  ],
+};
+
+let cachedSchema: GraphQLSchema | null = null;
+
+/**
+ * Loads the committed schema snapshot (cached per worker)
+ */
+export function loadMockSchema(): GraphQLSchema {
+  if (cachedSchema) return cachedSchema;
+
+  if (fs.existsSync(INTROSPECTION_PATH)) {
+    const introspection = JSON.parse(fs.readFileSync(INTROSPECTION_PATH, "utf-8"));
+    cachedSchema = buildClientSchema(introspection.data ?? introspection);
+  } else {
+    cachedSchema = buildSchema(fs.readFileSync(SDL_PATH, "utf-8"));
+  }
+  return cachedSchema;
+}
+
+/**
+ * Small seeded PRNG (mulberry32), so the same operation always gets the same values
+ */
+export function createRandom(seed: string): () => number {
+  let state = crypto.createHash("md5").update(seed).digest().readUInt32LE(0);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+interface BuildContext {
+  schema: GraphQLSchema;
+  parsed: ParsedOperation;
+  variables: Variables;
+  random: () => number;
+  counter: number;
+  /** Selections the schema can't serve, answered as validation errors */
+  errors: GraphQLFormattedError[];
+}
+
+/**
+ * Checks if a fragment type condition applies to a concrete object type
+ */
+function appliesTo(typeCondition: string | undefined, type: GraphQLObjectType, schema: GraphQLSchema): boolean {
+  if (!typeCondition || typeCondition === type.name) return true;
+  const conditionType = schema.getType(typeCondition);
+  return !!conditionType && isAbstractType(conditionType) && schema.isSubType(conditionType, type);
+}
+
+function collectFieldsForType(
+  selectionSet: SelectionSetNode,
+  type: GraphQLObjectType,
+  context: BuildContext,
+  fields: Map<string, FieldNode[]> = new Map()
+): Map<string, FieldNode[]> {
+  for (const selection of selectionSet.selections) {
+    if (!shouldInclude(selection.directives, context.variables)) continue;
+
+    if (selection.kind === Kind.FIELD) {
+      const key = selection.alias?.value ?? selection.name.value;
+      fields.set(key, [...(fields.get(key) ?? []), selection]);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      if (appliesTo(selection.typeCondition?.name.value, type, context.schema)) {
+        collectFieldsForType(selection.selectionSet, type, context, fields);
+      }
+    } else {
+      const fragment = context.parsed.fragmentDefinitions.get(selection.name.value);
+      if (fragment && appliesTo(fragment.typeCondition.name.value, type, context.schema)) {
+        collectFieldsForType(fragment.selectionSet, type, context, fields);
+      }
+    }
+  }
+  return fields;
+}
+
+function buildScalar(typeName: string, fieldName: string, context: BuildContext): unknown {
+  context.counter++;
+  switch (typeName) {
+    case "Int":
+      return Math.floor(context.random() * 1000);
+    case "Float":
+      return Math.round(context.random() * 100000) / 100;
+    case "Boolean":
+      return context.random() < 0.5;
+    case "ID":
+      return `${fieldName}-${context.counter}`;
+    default:
+      return `${fieldName} ${context.counter}`;
+  }
+}
+
+function buildValue(
+  type: GraphQLOutputType,
+  fieldNodes: FieldNode[],
+  sample: unknown,
+  context: BuildContext
+): unknown {
+  if (isNonNullType(type)) {
+    return buildValue(type.ofType, fieldNodes, sample, context);
+  }
+  if (isListType(type)) {
+    const length = Array.isArray(sample) ? sample.length : 1 + Math.floor(context.random() * 3);
+    return Array.from({ length }, (_, i) =>
+      buildValue(type.ofType, fieldNodes, Array.isArray(sample) ? sample[i] : undefined, context)
+    );
+  }
+
+  const namedType = getNamedType(type);
+  if (isEnumType(namedType)) {
+    const values = namedType.getValues();
+    return values[Math.floor(context.random() * values.length)]?.value ?? null;
+  }
+  if (isObjectType(namedType) || isAbstractType(namedType)) {
+    const objectType = isObjectType(namedType)
+      ? namedType
+      : context.schema.getPossibleTypes(namedType)[0];
+    return buildObject(objectType, mergeSelectionSets(fieldNodes), fieldNodes[0], context);
+  }
+  if (sample !== undefined) return sample;
+  return buildScalar(namedType.name, fieldNodes[0].name.value, context);
+}
+
+function buildObject(
+  type: GraphQLObjectType,
+  selectionSet: SelectionSetNode | undefined,
+  parentField: FieldNode | undefined,
+  context: BuildContext
+): Record<string, unknown> {
+  const samples = SAMPLE_DATA[type.name] ?? [];
+  const sample: Record<string, unknown> = samples.length > 0
+    ? { ...samples[Math.floor(context.random() * samples.length)] }
+    : {};
+
+  // Lookups like country(code: "FR") return an object with that code
+  const codeArgument = parentField?.arguments?.find(arg => arg.name.value === "code");
+  if (codeArgument) {
+    sample.code = valueFromASTUntyped(codeArgument.value, context.variables);
+  }
+
+  const result: Record<string, unknown> = {};
+  if (!selectionSet) return result;
+
+  const schemaFields = type.getFields();
+  for (const [key, fieldNodes] of collectFieldsForType(selectionSet, type, context)) {
+    const fieldName = fieldNodes[0].name.value;
+    if (fieldName === "__typename") {
+      result[key] = type.name;
+      continue;
+    }
+    const schemaField = schemaFields[fieldName];
+    if (!schemaField) {
+      context.errors.push(validationError(`Cannot query field "${fieldName}" on type "${type.name}".`));
+      continue;
+    }
+    result[key] = buildValue(schemaField.type, fieldNodes, sample[fieldName], context);
+  }
+  return result;
+}
+
+/**
+ * Error a server answers an operation with when it doesn't fit the schema
+ */
+function validationError(message: string): GraphQLFormattedError {
+  return graphqlError(message, { code: "GRAPHQL_VALIDATION_FAILED" });
+}
+
+/**
+ * Builds a schema-valid response for an operation that has no recorded mock
+ *
+ * Values are deterministic: the same operation, variables and seed
+ * always produce the same response.
+ * Operations the schema can't serve (a field it doesn't have, a mutation without
+ * a Mutation type) get a GRAPHQL_VALIDATION_FAILED error response, as a server would answer.
+ */
+export function buildAutoMock(
+  parsed: ParsedOperation,
+  variables?: Variables | null,
+  seed: string = "playwright-mocking-lab"
+): any {
+  const schema = loadMockSchema();
+
+  // Introspection is answered straight from the schema snapshot
+  if (parsed.operationName === "IntrospectionQuery") {
+    return executeSync({ schema, document: parsed.document, operationName: parsed.operationName, variableValues: variables });
+  }
+
+  const rootType =
+    parsed.operationType === "mutation" ? schema.getMutationType()
+    : parsed.operationType === "subscription" ? schema.getSubscriptionType()
+    : schema.getQueryType();
+  if (!rootType) {
+    return errorResponse(validationError(`Schema is not configured to execute ${parsed.operationType} operation.`));
+  }
+
+  const context: BuildContext = {
+    schema,
+    parsed,
+    variables: variables ?? {},
+    random: createRandom(`${seed}:${parsed.operationName ?? parsed.documentHash}`),
+    counter: 0,
+    errors: [],
+  };
+  const data = buildObject(rootType, parsed.operation.selectionSet, undefined, context);
+  return context.errors.length > 0 ? errorResponse(...context.errors) : { data };
+}
@@ -0,0 +1,189 @@
+import crypto from "crypto";
+import {
+  DocumentNode,
+  FragmentDefinitionNode,
+  Kind,
+  OperationDefinitionNode,
+  SelectionSetNode,
+  parse,
+  print,
+} from "graphql";
+
+export type OperationType = "query" | "mutation" | "subscription";
+
+/**
+ * A single operation picked out of a parsed GraphQL document
+ */
+export interface ParsedOperation {
+  operationType: OperationType;
+  /** null for anonymous operations */
+  operationName: string | null;
+  /** Names of the fragments the operation uses, including nested spreads */
+  fragments: string[];
+  /** Hash of the printed document, so formatting and comments don't matter */
+  documentHash: string;
+  document: DocumentNode;
+  operation: OperationDefinitionNode;
+  fragmentDefinitions: Map<string, FragmentDefinitionNode>;
+}
+
+/**
+ * Shape of a GraphQL request body (POST JSON or GET query params)
+ */
+export interface GraphQLRequestBody {
+  query?: string;
+  operationName?: string | null;
+  variables?: Record<string, unknown> | null;
+  extensions?: {
+    persistedQuery?: { version?: number; sha256Hash?: string };
+    [key: string]: unknown;
+  } | null;
+}
+
+/**
+ * Collects fragment names spread inside a selection set, following nested fragments
+ */
+function collectFragments(
+  selectionSet: SelectionSetNode,
+  definitions: Map<string, FragmentDefinitionNode>,
+  found: Set<string>
+): void {
+  for (const selection of selectionSet.selections) {
+    if (selection.kind === Kind.FRAGMENT_SPREAD) {
+      const name = selection.name.value;
+      if (found.has(name)) continue;
+
+      found.add(name);
+      const definition = definitions.get(name);
+      if (definition) collectFragments(definition.selectionSet, definitions, found);
+    } else if (selection.selectionSet) {
+      collectFragments(selection.selectionSet, definitions, found);
+    }
+  }
+}
+
+/**
+ * Parses a GraphQL document and picks the operation to execute
+ *
+ * Follows the GraphQL spec for operation selection: with several operations
+ * in one document, operationName decides which one runs.
+ *
+ * @throws Error when the document has a syntax error or the operation can't be picked
+ */
+export function parseGraphQLOperation(
+  query: string,
+  operationName?: string | null
+): ParsedOperation {
+  let document: DocumentNode;
+  try {
+    document = parse(query);
+  } catch (error: any) {
+    throw new Error(`Invalid GraphQL document: ${error.message}`);
+  }
+
+  const operations = document.definitions.filter(
+    (definition): definition is OperationDefinitionNode => definition.kind === Kind.OPERATION_DEFINITION
+  );
+  const fragmentDefinitions = new Map<string, FragmentDefinitionNode>();
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.FRAGMENT_DEFINITION) {
+      fragmentDefinitions.set(definition.name.value, definition);
+    }
+  }
+
+  let operation: OperationDefinitionNode | undefined;
+  if (operationName) {
+    operation = operations.find(op => op.name?.value === operationName);
+    if (!operation) {
+      throw new Error(`Operation "${operationName}" not found in GraphQL document`);
+    }
+  } else if (operations.length === 1) {
+    operation = operations[0];
+  } else if (operations.length === 0) {
+    throw new Error("GraphQL document contains no operation");
+  } else {
+    throw new Error("GraphQL document contains several operations but no operationName was given");
+  }
+
+  const fragments = new Set<string>();
+  collectFragments(operation.selectionSet, fragmentDefinitions, fragments);
+
+  return {
+    operationType: operation.operation as OperationType,
+    operationName: operation.name?.value ?? null,
+    fragments: Array.from(fragments).sort(),
+    documentHash: crypto.createHash("sha256").update(print(document)).digest("hex"),
+    document,
+    operation,
+    fragmentDefinitions,
+  };
+}
+
+/**
+ * Parses the operation of a GraphQL request body
+ * Returns null when the body has no query or the query can't be parsed
+ */
+export function parseGraphQLRequest(body?: GraphQLRequestBody | null): ParsedOperation | null {
+  if (!body?.query) return null;
+
+  try {
+    return parseGraphQLOperation(body.query, body.operationName);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolves the operation name of a GraphQL request body
+ * Prefers the name from the parsed document, falls back to the operationName field
+ */
+export function getOperationName(body?: GraphQLRequestBody | null): string | null {
+  return parseGraphQLRequest(body)?.operationName ?? body?.operationName ?? null;
+}
+
+/**
+ * Computes the automatic persisted query (APQ) hash of a query: sha256 of the exact text
+ */
+export function persistedQueryHash(query: string): string {
+  return crypto.createHash("sha256").update(query).digest("hex");
+}
+
+/**
+ * Reads the GraphQL request body from either transport
+ * - POST: JSON body (a single operation or a batch array)
+ * - GET: `query`, `operationName`, `variables` and `extensions` URL parameters
+ * Returns null when the request carries no GraphQL body
+ */
+export function readGraphQLRequestBody(
+  method: string,
+  url: string,
+  postData?: string | null
+): GraphQLRequestBody | GraphQLRequestBody[] | null {
+  if (method.toUpperCase() === "GET") {
+    const params = new URL(url).searchParams;
+    const readJson = (name: string) => {
+      const value = params.get(name);
+      if (!value) return undefined;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    };
+
+    const body: GraphQLRequestBody = {
+      query: params.get("query") ?? undefined,
+      operationName: params.get("operationName"),
+      variables: readJson("variables"),
+      extensions: readJson("extensions"),
+    };
+    return body.query || body.extensions ? body : null;
+  }
+
+  if (!postData) return null;
+  try {
+    return JSON.parse(postData);
+  } catch {
+    return null;
+  }
+}
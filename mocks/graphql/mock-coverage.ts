@@ -0,0 +1,68 @@
+import { GraphQLSchema, SelectionSetNode } from "graphql";
+import { ParsedOperation } from "./graphql-document";
+import {
+  SchemaPosition,
+  collectFields,
+  fieldPosition,
+  mergeSelectionSets,
+  readField,
+  rootPosition,
+} from "./response-projection";
+
+type Variables = Record<string, unknown>;
+
+function collectMissing(
+  value: unknown,
+  selectionSet: SelectionSetNode | undefined,
+  parsed: ParsedOperation,
+  variables: Variables,
+  prefix: string,
+  missing: Set<string>,
+  position: SchemaPosition | undefined
+): void {
+  if (value === null || value === undefined || !selectionSet || typeof value !== "object") return;
+
+  if (Array.isArray(value)) {
+    value.forEach(item => collectMissing(item, selectionSet, parsed, variables, prefix, missing, position));
+    return;
+  }
+
+  const source = value as Record<string, unknown>;
+  const fields = collectFields(selectionSet, source, parsed, variables, position);
+
+  for (const [key, fieldNodes] of fields) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    const fieldValue = readField(source, key, fieldNodes[0], position);
+
+    if (fieldValue === undefined) {
+      // The mock was recorded without it and the schema can't tell the type: not a gap in the data
+      if (fieldNodes[0].name.value !== "__typename") missing.add(path);
+      continue;
+    }
+    const valuePosition = fieldPosition(source, fieldNodes[0], position);
+    collectMissing(fieldValue, mergeSelectionSets(fieldNodes), parsed, variables, path, missing, valuePosition);
+  }
+}
+
+/**
+ * Lists the requested fields a mock response can't provide
+ *
+ * Paths use response keys (aliases) joined with dots, e.g. `country.currency`.
+ * List items share one path, so a field missing from several items is reported once.
+ * Fields under a null value are not checked, as a server would not resolve them either.
+ * `__typename` is not reported: clients like Apollo add it to every selection while HARs
+ * often lack it, and projectResponse fills it in from the schema.
+ */
+export function findMissingFields(
+  response: any,
+  parsed: ParsedOperation,
+  variables?: Variables | null,
+  schema?: GraphQLSchema
+): string[] {
+  if (!response || typeof response !== "object" || !response.data) return [];
+
+  const missing = new Set<string>();
+  const position = rootPosition(schema, parsed);
+  collectMissing(response.data, parsed.operation.selectionSet, parsed, variables ?? {}, "", missing, position);
+  return Array.from(missing).sort();
+}
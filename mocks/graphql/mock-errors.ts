@@ -0,0 +1,171 @@
+/**
+ * GraphQL Error & Failure Simulation
+ *
+ * Builds realistic failure payloads for overrides and scenarios:
+ * spec-shaped errors, partial data with field errors, HTTP error statuses,
+ * rate limiting and transport aborts.
+ *
+ * @example
+ * ```typescript
+ * gql.override("GetCountry", fieldError(["country", "capital"], "Capital service down"));
+ * gql.override("GetCountries", rateLimited(30));
+ * gql.override("GetContinent", networkError());
+ * ```
+ */
+
+import type { MockTransform } from "./mock-types";
+
+export interface GraphQLErrorLocation {
+  line: number;
+  column: number;
+}
+
+/**
+ * An error entry as laid out in the GraphQL spec ("Response" → "Errors")
+ */
+export interface GraphQLFormattedError {
+  message: string;
+  locations?: GraphQLErrorLocation[];
+  /** Response keys (and list indexes) leading to the failed field */
+  path?: (string | number)[];
+  extensions?: Record<string, unknown>;
+}
+
+export interface GraphQLErrorOptions {
+  path?: (string | number)[];
+  locations?: GraphQLErrorLocation[];
+  /** Shortcut for extensions.code (e.g. "UNAUTHENTICATED", "INTERNAL_SERVER_ERROR") */
+  code?: string;
+  extensions?: Record<string, unknown>;
+}
+
+/**
+ * A response the mock layer answers at the HTTP level instead of with a 200
+ * - status: fulfil with this status, headers and body
+ * - abort: fail the request with a Playwright error code (e.g. "failed", "timedout")
+ */
+export type TransportFailure =
+  | { kind: "status"; status: number; headers?: Record<string, string>; body?: unknown }
+  | { kind: "abort"; errorCode: string };
+
+/**
+ * Key marking a mock response as a transport failure
+ * A plain string key, so the marker survives structuredClone between stacked overrides
+ */
+const TRANSPORT_FAILURE_KEY = "__transportFailure";
+
+/**
+ * Default extensions.code per HTTP status, following Apollo Server's conventions
+ */
+const STATUS_CODES: Record<number, string> = {
+  400: "BAD_REQUEST",
+  401: "UNAUTHENTICATED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  429: "RATE_LIMITED",
+  500: "INTERNAL_SERVER_ERROR",
+  502: "BAD_GATEWAY",
+  503: "SERVICE_UNAVAILABLE",
+  504: "GATEWAY_TIMEOUT",
+};
+
+/**
+ * Builds one spec-shaped GraphQL error
+ */
+export function graphqlError(message: string, options: GraphQLErrorOptions = {}): GraphQLFormattedError {
+  const extensions = {
+    ...options.extensions,
+    ...(options.code && { code: options.code }),
+  };
+
+  return {
+    message,
+    ...(options.locations && { locations: options.locations }),
+    ...(options.path && { path: options.path }),
+    ...(Object.keys(extensions).length > 0 && { extensions }),
+  };
+}
+
+/**
+ * A response where the whole operation failed: `data` is null
+ * A plain object, so it works as an override (deep-merge replaces data and errors)
+ */
+export function errorResponse(...errors: GraphQLFormattedError[]): { data: null; errors: GraphQLFormattedError[] } {
+  return { data: null, errors };
+}
+
+/**
+ * Partial data: nulls the field at `path` and adds an error pointing at it,
+ * the way a server reports a resolver failure on a nullable field
+ *
+ * @param path - Response keys (and list indexes) from `data`, e.g. ["country", "capital"]
+ */
+export function fieldError(
+  path: (string | number)[],
+  message: string,
+  options: Omit<GraphQLErrorOptions, "path"> = {}
+): MockTransform {
+  return (mock) => {
+    let parent = mock?.data;
+    for (const key of path.slice(0, -1)) {
+      parent = parent?.[key];
+    }
+    if (parent && typeof parent === "object") {
+      parent[path[path.length - 1]] = null;
+    }
+
+    return {
+      ...mock,
+      errors: [...(mock?.errors ?? []), graphqlError(message, { code: "INTERNAL_SERVER_ERROR", ...options, path })],
+    };
+  };
+}
+
+function transportFailure(failure: TransportFailure): MockTransform {
+  return () => ({ [TRANSPORT_FAILURE_KEY]: failure });
+}
+
+/**
+ * Answers with an HTTP error status and a GraphQL error body
+ * The body defaults to `{ data: null, errors: [...] }` with a code matching the status.
+ */
+export function httpError(
+  status: number,
+  options: { message?: string; code?: string; headers?: Record<string, string>; body?: unknown } = {}
+): MockTransform {
+  const body = options.body ?? errorResponse(
+    graphqlError(options.message ?? `Response not successful: Received status code ${status}`, {
+      code: options.code ?? STATUS_CODES[status],
+    })
+  );
+  return transportFailure({ kind: "status", status, headers: options.headers, body });
+}
+
+/**
+ * Answers with 429 Too Many Requests and a Retry-After header (in seconds)
+ */
+export function rateLimited(retryAfterSeconds: number, message = "Too many requests"): MockTransform {
+  return httpError(429, {
+    headers: { "Retry-After": String(retryAfterSeconds) },
+    body: errorResponse(graphqlError(message, {
+      code: "RATE_LIMITED",
+      extensions: { retryAfter: retryAfterSeconds },
+    })),
+  });
+}
+
+/**
+ * Fails the request at the transport level, so the client sees a network error
+ * @param errorCode - Playwright abort code: "failed", "timedout", "connectionrefused", ...
+ */
+export function networkError(errorCode = "failed"): MockTransform {
+  return transportFailure({ kind: "abort", errorCode });
+}
+
+/**
+ * Reads the transport failure a mock response was replaced with, if any
+ */
+export function getTransportFailure(response: unknown): TransportFailure | undefined {
+  if (!response || typeof response !== "object") return undefined;
+  return (response as Record<string, TransportFailure | undefined>)[TRANSPORT_FAILURE_KEY];
+}
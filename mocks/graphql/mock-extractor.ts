@@ -1,8 +1,21 @@
 import fs from "fs/promises";
 import path from "path";
 import crypto from "crypto";
+import { MockVariant, variablesKey } from "./mock-matcher";
+import {
+  GraphQLRequestBody,
+  OperationType,
+  getOperationName,
+  parseGraphQLRequest,
+  persistedQueryHash,
+  readGraphQLRequestBody,
+} from "./graphql-document";
+import { MockMetadata, MockSource } from "./mock-types";
+import { formatMockFile, hasMockFile, mockFilePath, readMockFile } from "./mock-loader";
 
 interface HarEntry {
+  /** When the request was sent (ISO 8601) */
+  startedDateTime?: string;
   request: {
     url: string;
     method: string;
@@ -23,83 +36,140 @@ interface HarFile {
   };
 }
 
-interface MockMetadata {
+interface RecordedResponse {
+  /** Position of the entry in the HAR's log.entries */
+  entryIndex: number;
+  /** Endpoint the operation was sent to (URL without the query string) */
+  endpoint: string;
+  /** When it was recorded (ISO 8601) */
+  recordedAt?: string;
   operationName: string;
-  schemaHash: string;
-  lastUpdated: string;
+  variables: Record<string, unknown>;
+  response: any;
+  query?: string;
+  persistedQueryHash?: string;
 }
 
 interface GraphQLOperation {
   operationName: string;
+  operationType: OperationType;
+  documentHash: string;
   query: string;
+  /** Set when the client sent the query as an automatic persisted query */
+  persistedQueryHash?: string;
 }
 
 /**
- * Extracts GraphQL operation name from POST request body
+ * Reads the GraphQL body of a HAR entry (POST JSON or GET URL parameters)
+ * Batched bodies are not split and return null
  */
-function extractOperationName(postData?: string): string | null {
-  if (!postData) return null;
-  
+export function readHarGraphQLBody(entry: {
+  request: { method: string; url: string; postData?: { text?: string } };
+}): GraphQLRequestBody | null {
+  const body = readGraphQLRequestBody(entry.request.method, entry.request.url, entry.request.postData?.text);
+  return body && !Array.isArray(body) ? body : null;
+}
+
+/**
+ * Checks if a response is the APQ "send me the full query" error
+ */
+function isPersistedQueryNotFound(response: any): boolean {
+  return Array.isArray(response?.errors) && response.errors.some(
+    (error: any) => error?.message === "PersistedQueryNotFound" ||
+      error?.extensions?.code === "PERSISTED_QUERY_NOT_FOUND"
+  );
+}
+
+/**
+ * Extracts all GraphQL operations (name + query) from a HAR file
+ * Used to preserve existing operations when re-recording
+ */
+export async function extractGraphQLOperations(
+  harPath: string
+): Promise<GraphQLOperation[]> {
   try {
-    const parsed = JSON.parse(postData);
+    const harContent = await fs.readFile(harPath, "utf-8");
+    const har: HarFile = JSON.parse(harContent);
     
-    // First, check if operationName is explicitly provided
-    if (parsed.operationName) {
-      return parsed.operationName;
-    }
+    const operations: GraphQLOperation[] = [];
+    const seen = new Set<string>();
     
-    // Otherwise, extract from the query string
-    if (parsed.query) {
-      const match = parsed.query.match(/(?:query|mutation)\s+(\w+)/);
-      return match ? match[1] : null;
+    for (const entry of har.log.entries) {
+      const body = readHarGraphQLBody(entry);
+      const parsed = parseGraphQLRequest(body);
+      const operationName = parsed?.operationName;
+      
+      if (!body?.query || !parsed || !operationName || operationName === "IntrospectionQuery") continue;
+      if (seen.has(operationName)) continue;
+      
+      seen.add(operationName);
+      operations.push({
+        operationName,
+        operationType: parsed.operationType,
+        documentHash: parsed.documentHash,
+        query: body.query,
+        persistedQueryHash: body.extensions?.persistedQuery?.sha256Hash
+      });
     }
     
-    return null;
+    return operations;
   } catch {
-    // Fallback: try to extract directly from the string
-    const match = postData.match(/(?:query|mutation)\s+(\w+)/);
-    return match ? match[1] : null;
+    return []; // Return empty if HAR doesn't exist yet
   }
 }
 
 /**
- * Extracts all GraphQL operations (name + query) from a HAR file
- * Used to preserve existing operations when re-recording
+ * One recorded request of an operation: its query and the variables it was sent with
  */
-export async function extractGraphQLOperations(
+export interface GraphQLRecording extends GraphQLOperation {
+  variables: Record<string, unknown>;
+}
+
+/**
+ * Identifies a recording: the operation name plus a stable hash of its variables
+ * Variants are keyed the same way, so each recorded variables set is kept apart.
+ */
+export function recordingKey(operationName: string, variables?: Record<string, unknown> | null): string {
+  return `${operationName}:${variablesKey(variables)}`;
+}
+
+/**
+ * Extracts every distinct recording (operation + variables) from a HAR file, in recording order
+ * Used to re-send and validate each variant with its own variables
+ */
+export async function extractGraphQLRecordings(
   harPath: string
-): Promise<GraphQLOperation[]> {
+): Promise<GraphQLRecording[]> {
   try {
     const harContent = await fs.readFile(harPath, "utf-8");
     const har: HarFile = JSON.parse(harContent);
     
-    const operations: GraphQLOperation[] = [];
+    const recordings: GraphQLRecording[] = [];
     const seen = new Set<string>();
     
     for (const entry of har.log.entries) {
-      if (entry.request.method !== "POST") continue;
+      const body = readHarGraphQLBody(entry);
+      const parsed = parseGraphQLRequest(body);
+      const operationName = parsed?.operationName;
       
-      const postData = entry.request.postData?.text;
-      if (!postData) continue;
+      if (!body?.query || !parsed || !operationName || operationName === "IntrospectionQuery") continue;
       
-      try {
-        const parsed = JSON.parse(postData);
-        const operationName = parsed.operationName || extractOperationName(postData);
-        
-        if (!operationName || operationName === "IntrospectionQuery") continue;
-        if (seen.has(operationName)) continue;
-        
-        seen.add(operationName);
-        operations.push({
-          operationName,
-          query: parsed.query
-        });
-      } catch {
-        continue;
-      }
+      const variables = body.variables && typeof body.variables === "object" ? body.variables : {};
+      const key = recordingKey(operationName, variables);
+      if (seen.has(key)) continue;
+      
+      seen.add(key);
+      recordings.push({
+        operationName,
+        operationType: parsed.operationType,
+        documentHash: parsed.documentHash,
+        query: body.query,
+        variables,
+        persistedQueryHash: body.extensions?.persistedQuery?.sha256Hash
+      });
     }
     
-    return operations;
+    return recordings;
   } catch {
     return []; // Return empty if HAR doesn't exist yet
   }
@@ -109,7 +179,7 @@ export async function extractGraphQLOperations(
  * Generate a hash of the response structure to detect schema changes
  * Only considers the shape/structure, not the actual data values
  */
-function generateSchemaHash(response: any): string {
+export function generateSchemaHash(response: any): string {
   // Extract only the structure (types and keys), not values
   const getStructure = (obj: any): any => {
     if (obj === null) return "null";
@@ -133,23 +203,19 @@ function generateSchemaHash(response: any): string {
 }
 
 /**
- * Extracts all GraphQL operations from a HAR file
- * Returns a map of operationName -> response data
+ * Reads every recorded GraphQL response from a HAR file, in recording order
  */
-export async function extractGraphQLMocks(
-  harPath: string
-): Promise<Map<string, any>> {
+async function extractGraphQLResponses(harPath: string): Promise<RecordedResponse[]> {
   const harContent = await fs.readFile(harPath, "utf-8");
   const har: HarFile = JSON.parse(harContent);
   
-  const mocks = new Map<string, any>();
+  const responses: RecordedResponse[] = [];
   
-  for (const entry of har.log.entries) {
-    // Only process POST requests (GraphQL queries)
-    if (entry.request.method !== "POST") continue;
-    
-    const operationName = extractOperationName(entry.request.postData?.text);
-    if (!operationName) continue;
+  for (const [entryIndex, entry] of har.log.entries.entries()) {
+    // GraphQL queries arrive as POST bodies or GET URL parameters
+    const body = readHarGraphQLBody(entry);
+    const operationName = getOperationName(body);
+    if (!body || !operationName) continue;
     
     // Skip introspection queries (not application queries)
     if (operationName === "IntrospectionQuery") continue;
@@ -159,50 +225,193 @@ export async function extractGraphQLMocks(
     
     try {
       const response = JSON.parse(responseText);
-      mocks.set(operationName, response);
+      
+      // The client retries with the full query, that entry holds the real response
+      if (isPersistedQueryNotFound(response)) continue;
+      
+      responses.push({
+        entryIndex,
+        endpoint: entry.request.url.split("?")[0],
+        recordedAt: entry.startedDateTime,
+        operationName,
+        variables: body.variables && typeof body.variables === "object" ? body.variables : {},
+        response,
+        query: body.query,
+        persistedQueryHash: body.extensions?.persistedQuery?.sha256Hash
+          ?? (body.query ? persistedQueryHash(body.query) : undefined),
+      });
     } catch (error) {
       console.warn(`Failed to parse response for ${operationName}:`, error);
     }
   }
   
-  return mocks;
+  return responses;
+}
+
+/**
+ * Picks the recording each operation's default mock comes from:
+ * the last response recorded without variables,
+ * or the first recorded response if every request carried variables.
+ */
+async function extractDefaultResponses(harPath: string): Promise<Map<string, RecordedResponse>> {
+  const responses = await extractGraphQLResponses(harPath);
+  
+  const defaults = new Map<string, RecordedResponse>();
+  
+  for (const recorded of responses) {
+    const hasVariables = Object.keys(recorded.variables).length > 0;
+    
+    if (!hasVariables) {
+      defaults.set(recorded.operationName, recorded);
+    } else if (!defaults.has(recorded.operationName)) {
+      defaults.set(recorded.operationName, recorded);
+    }
+  }
+  
+  return defaults;
+}
+
+/**
+ * Extracts all GraphQL operations from a HAR file
+ * Returns a map of operationName -> default response data
+ */
+export async function extractGraphQLMocks(
+  harPath: string
+): Promise<Map<string, any>> {
+  const defaults = await extractDefaultResponses(harPath);
+  return new Map(Array.from(defaults, ([operationName, { response }]) => [operationName, response]));
+}
+
+/**
+ * Describes where the default response of each operation was recorded
+ */
+export async function extractMockSources(
+  harPath: string
+): Promise<Map<string, MockSource>> {
+  const defaults = await extractDefaultResponses(harPath);
+  const harFile = path.relative(process.cwd(), harPath).split(path.sep).join("/");
+  
+  return new Map(Array.from(defaults, ([operationName, { entryIndex, endpoint, variables }]) => [
+    operationName,
+    { harFile, entryIndex, endpoint, variablesKey: variablesKey(variables) },
+  ]));
+}
+
+/**
+ * When the default response of each operation was recorded (the HAR entry's startedDateTime)
+ * Operations whose entry has no date are left out
+ */
+export async function extractRecordingDates(
+  harPath: string
+): Promise<Map<string, string>> {
+  const defaults = await extractDefaultResponses(harPath);
+  return new Map(Array.from(defaults)
+    .flatMap(([operationName, { recordedAt }]) => recordedAt ? [[operationName, recordedAt] as const] : []));
+}
+
+/**
+ * Extracts the variable-specific responses of each GraphQL operation
+ * Returns a map of operationName -> variants, keyed by variables hash
+ * Only requests that carried variables produce a variant
+ */
+export async function extractGraphQLMockVariants(
+  harPath: string
+): Promise<Map<string, MockVariant[]>> {
+  const responses = await extractGraphQLResponses(harPath);
+  
+  const variants = new Map<string, MockVariant[]>();
+  
+  for (const { operationName, variables, response } of responses) {
+    if (Object.keys(variables).length === 0) continue;
+    
+    const key = variablesKey(variables);
+    const list = variants.get(operationName) ?? [];
+    const existing = list.findIndex(variant => variant.variablesKey === key);
+    const variant: MockVariant = { variablesKey: key, variables, response };
+    
+    // Re-recorded variables replace the older response
+    if (existing >= 0) {
+      list[existing] = variant;
+    } else {
+      list.push(variant);
+    }
+    variants.set(operationName, list);
+  }
+  
+  return variants;
+}
+
+/**
+ * Lists the endpoints each GraphQL operation was recorded at, in recording order
+ * An operation recorded at several endpoints would mix their responses in one mock file.
+ */
+export async function extractOperationEndpoints(
+  harPath: string
+): Promise<Map<string, string[]>> {
+  const responses = await extractGraphQLResponses(harPath);
+  
+  const endpoints = new Map<string, string[]>();
+  for (const { operationName, endpoint } of responses) {
+    const list = endpoints.get(operationName) ?? [];
+    if (!list.includes(endpoint)) list.push(endpoint);
+    endpoints.set(operationName, list);
+  }
+  
+  return endpoints;
 }
 
 /**
- * Saves extracted GraphQL mocks to individual TypeScript files
+ * Extracts the query document and APQ hash recorded for each operation
+ * Keeps the hash the client sent, or computes it from the query
+ */
+async function extractRecordedQueries(
+  harPath: string
+): Promise<Map<string, Pick<MockMetadata, "query" | "persistedQueryHash">>> {
+  const responses = await extractGraphQLResponses(harPath);
+  
+  const queries = new Map<string, Pick<MockMetadata, "query" | "persistedQueryHash">>();
+  for (const { operationName, query, persistedQueryHash } of responses) {
+    if (!query || queries.has(operationName)) continue;
+    queries.set(operationName, { query, persistedQueryHash });
+  }
+  
+  return queries;
+}
+
+/**
+ * Saves extracted GraphQL mocks to individual JSON data files
+ * Response types stay in the hand-maintained <operation>.mock.ts, which re-extracting leaves alone.
+ * `lastUpdated` is when the HAR entry was recorded, so re-extracting doesn't make a mock look fresh.
  */
 export async function saveGraphQLMocksToFiles(
   harPath: string,
   outputDir: string
 ): Promise<void> {
   const mocks = await extractGraphQLMocks(harPath);
+  const mockVariants = await extractGraphQLMockVariants(harPath);
+  const recordedQueries = await extractRecordedQueries(harPath);
+  const sources = await extractMockSources(harPath);
+  const defaults = await extractDefaultResponses(harPath);
   
   // Ensure output directory exists
   await fs.mkdir(outputDir, { recursive: true });
   
   for (const [operationName, response] of mocks.entries()) {
-    const fileName = `${operationName}.mock.ts`;
-    const filePath = path.join(outputDir, fileName);
+    const filePath = mockFilePath(outputDir, operationName);
     
     const schemaHash = generateSchemaHash(response);
     const metadata: MockMetadata = {
       operationName,
       schemaHash,
-      lastUpdated: new Date().toISOString(),
+      lastUpdated: defaults.get(operationName)?.recordedAt ?? new Date().toISOString(),
+      ...recordedQueries.get(operationName),
+      source: sources.get(operationName),
     };
     
-    const fileContent = `// Auto-generated from HAR file
-// Operation: ${operationName}
-// Schema Hash: ${schemaHash}
-// Last Updated: ${metadata.lastUpdated}
-
-export const ${operationName}Mock = ${JSON.stringify(response, null, 2)};
-
-export const metadata = ${JSON.stringify(metadata, null, 2)};
-`;
+    const variants = mockVariants.get(operationName);
     
-    await fs.writeFile(filePath, fileContent, "utf-8");
-    console.log(`✓ Created ${fileName}`);
+    await fs.writeFile(filePath, formatMockFile(operationName, { metadata, mock: response, variants }), "utf-8");
+    console.log(`✓ Created ${path.basename(filePath)}`);
   }
   
   console.log(`\n✓ Extracted ${mocks.size} GraphQL operation(s) to ${outputDir}`);
@@ -222,7 +431,7 @@ export const metadata = ${JSON.stringify(metadata, null, 2)};
  * 4. If changed, re-extract to update mocks
  * 
  * For manual testing of schema changes:
- * - Delete GetCountries.mock.ts
+ * - Delete GetCountries.mock.json
  * - Manually edit the HAR response structure (change field names/types)
  * - Run test 4 - it will detect the change and create new mock
  */
@@ -231,53 +440,44 @@ export async function hasSchemaChanged(
   harPath: string,
   mocksDir: string
 ): Promise<boolean> {
+  // Get current hash from HAR
+  const mocks = await extractGraphQLMocks(harPath);
+  const currentResponse = mocks.get(operationName);
+  if (!currentResponse) return false;
+  
+  const currentHash = generateSchemaHash(currentResponse);
+  
+  // Get existing hash from the mock file's metadata
+  let existingHash: string;
   try {
-    // Get current hash from HAR
-    const mocks = await extractGraphQLMocks(harPath);
-    const currentResponse = mocks.get(operationName);
-    if (!currentResponse) return false;
-    
-    const currentHash = generateSchemaHash(currentResponse);
-    
-    // Get existing hash from mock file
-    const mockFilePath = path.join(mocksDir, `${operationName}.mock.ts`);
-    const mockContent = await fs.readFile(mockFilePath, "utf-8");
-    const hashMatch = mockContent.match(/Schema Hash: ([a-f0-9]+)/);
-    
-    if (!hashMatch) return true; // No hash found, consider it changed
-    
-    const existingHash = hashMatch[1];
-    const changed = currentHash !== existingHash;
-    
-    if (changed) {
-      console.log(`📊 Schema change detected for ${operationName}:`);
-      console.log(`   Old hash: ${existingHash}`);
-      console.log(`   New hash: ${currentHash}`);
-    }
-    
-    return changed;
-    
-  } catch {
-    return true; // Error reading, consider it changed
+    existingHash = readMockFile(mockFilePath(mocksDir, operationName)).metadata.schemaHash;
+  } catch (error: any) {
+    console.log(`${error.message}\n   Treating ${operationName} as changed`);
+    return true; // Unreadable mock, consider it changed
   }
+  
+  const changed = currentHash !== existingHash;
+  
+  if (changed) {
+    console.log(`📊 Schema change detected for ${operationName}:`);
+    console.log(`   Old hash: ${existingHash}`);
+    console.log(`   New hash: ${currentHash}`);
+  }
+  
+  return changed;
 }
 
 /**
  * Loads a specific GraphQL mock by operation name
+ * Returns null when the operation has no mock file
+ * @throws Error when the mock file is malformed
  */
 export async function loadGraphQLMock(
   operationName: string,
   mocksDir: string
 ): Promise<any | null> {
-  const filePath = path.join(mocksDir, `${operationName}.mock.ts`);
-  
-  try {
-    // Dynamic import of the mock file
-    const mock = await import(filePath);
-    return mock[`${operationName}Mock`] || null;
-  } catch {
-    return null;
-  }
+  if (!hasMockFile(mocksDir, operationName)) return null;
+  return readMockFile(mockFilePath(mocksDir, operationName)).mock;
 }
 
 /**
@@ -287,12 +487,5 @@ export async function hasMockForOperation(
   operationName: string,
   mocksDir: string
 ): Promise<boolean> {
-  const filePath = path.join(mocksDir, `${operationName}.mock.ts`);
-  
-  try {
-    await fs.access(filePath);
-    return true;
-  } catch {
-    return false;
-  }
+  return hasMockFile(mocksDir, operationName);
 }
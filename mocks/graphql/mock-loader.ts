@@ -0,0 +1,300 @@
+/**
+ * Mock Loader
+ *
+ * The one place that reads and writes `<operationName>.mock.json` data files.
+ * The registry (and so setupGraphQLMocks) loads them lazily through it, and every
+ * script (extract, update, validate, registry generation) reads them through it too.
+ * It also reads and writes mock-manifest.json, the provenance of every mock in a directory.
+ */
+
+import { existsSync, readFileSync, readdirSync } from "fs";
+import path from "path";
+import type { MockVariant } from "./mock-matcher";
+import type { MockManifestEntry, MockMetadata, SubscriptionEvent } from "./mock-types";
+
+/**
+ * Contents of a `<operationName>.mock.json` data file
+ * Keys follow the operation name: `GetCountryMock`, `GetCountryVariants`, `GetCountryEvents`.
+ */
+export interface MockFile {
+  metadata: MockMetadata;
+  /** Default response */
+  mock: any;
+  /** Responses recorded for specific variables */
+  variants?: MockVariant[];
+  /** Scripted events of a subscription */
+  events?: SubscriptionEvent[];
+}
+
+const MOCK_FILE_SUFFIX = ".mock.json";
+const MANIFEST_FILE = "mock-manifest.json";
+const EVENT_TYPES = ["next", "error", "complete"];
+
+/**
+ * Parsed mock files by path, once per Playwright worker
+ */
+const loadedFiles = new Map<string, MockFile>();
+
+/**
+ * JSON body of every loaded response, serialized once when its file is read
+ */
+const serializedResponses = new WeakMap<object, string>();
+
+/**
+ * Path of an operation's mock data file in a mocks directory
+ */
+export function mockFilePath(mocksDir: string, operationName: string): string {
+  return path.join(mocksDir, `${operationName}${MOCK_FILE_SUFFIX}`);
+}
+
+/**
+ * Operation names of every mock data file in a directory, sorted
+ */
+export function listMockFiles(mocksDir: string): string[] {
+  return readdirSync(mocksDir)
+    .filter(file => file.endsWith(MOCK_FILE_SUFFIX))
+    .map(file => path.basename(file, MOCK_FILE_SUFFIX))
+    .sort();
+}
+
+/**
+ * Checks if an operation has a mock data file
+ */
+export function hasMockFile(mocksDir: string, operationName: string): boolean {
+  return existsSync(mockFilePath(mocksDir, operationName));
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Turns the "at position N" of a JSON.parse error into a line and column
+ */
+function jsonErrorLocation(text: string, message: string): string {
+  const position = message.match(/at position (\d+)/);
+  if (!position) return "";
+  const before = text.slice(0, Number(position[1])).split("\n");
+  return `, line ${before.length} column ${before[before.length - 1].length + 1}`;
+}
+
+/**
+ * Checks the parsed contents of a mock file for an operation
+ * Returns one message per problem (empty when the file is valid)
+ */
+export function checkMockFile(content: unknown, operationName: string): string[] {
+  if (!isObject(content)) return ["expected a JSON object"];
+
+  const problems: string[] = [];
+  const { metadata } = content;
+  if (!isObject(metadata)) {
+    problems.push(`"metadata" is missing`);
+  } else {
+    if (metadata.operationName !== operationName) {
+      problems.push(`metadata.operationName is ${JSON.stringify(metadata.operationName)}, expected "${operationName}" (the file name)`);
+    }
+    for (const field of ["schemaHash", "lastUpdated"]) {
+      if (typeof metadata[field] !== "string") problems.push(`metadata.${field} must be a string`);
+    }
+  }
+
+  const mockKey = `${operationName}Mock`;
+  if (!(mockKey in content)) {
+    const found = Object.keys(content).filter(key => key !== "metadata");
+    problems.push(`"${mockKey}" is missing (found: ${found.join(", ") || "nothing"})`);
+  }
+
+  const variants = content[`${operationName}Variants`];
+  if (variants !== undefined) {
+    if (!Array.isArray(variants)) {
+      problems.push(`"${operationName}Variants" must be an array`);
+    } else {
+      variants.forEach((variant, index) => {
+        if (!isObject(variant) || typeof variant.variablesKey !== "string" || !isObject(variant.variables) || !("response" in variant)) {
+          problems.push(`"${operationName}Variants"[${index}] needs variablesKey, variables and response`);
+        }
+      });
+    }
+  }
+
+  const events = content[`${operationName}Events`];
+  if (events !== undefined) {
+    if (!Array.isArray(events)) {
+      problems.push(`"${operationName}Events" must be an array`);
+    } else {
+      events.forEach((event, index) => {
+        if (!isObject(event) || !EVENT_TYPES.includes(event.type)) {
+          problems.push(`"${operationName}Events"[${index}] needs a type: ${EVENT_TYPES.join(", ")}`);
+        }
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Reads and checks a mock data file, without caching (scripts read files they may have just written)
+ * @throws Error naming the file and every problem when it is not valid JSON or not shaped like a mock file
+ */
+export function readMockFile(filePath: string): MockFile {
+  const fileName = path.basename(filePath);
+  const operationName = path.basename(filePath, MOCK_FILE_SUFFIX);
+
+  let text: string;
+  try {
+    text = readFileSync(filePath, "utf-8");
+  } catch (error: any) {
+    throw new Error(`❌ Cannot read mock file ${fileName}: ${error.code === "ENOENT" ? "not found" : error.message}`);
+  }
+
+  let content: any;
+  try {
+    content = JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`❌ Malformed mock file ${fileName}: not valid JSON (${error.message}${jsonErrorLocation(text, error.message)})`);
+  }
+
+  const problems = checkMockFile(content, operationName);
+  if (problems.length > 0) {
+    throw new Error(`❌ Malformed mock file ${fileName}:\n${problems.map(problem => `  - ${problem}`).join("\n")}`);
+  }
+
+  return {
+    metadata: content.metadata,
+    mock: content[`${operationName}Mock`],
+    variants: content[`${operationName}Variants`],
+    events: content[`${operationName}Events`],
+  };
+}
+
+/**
+ * Reads a mock data file on first use; later calls return the cached file
+ */
+export function loadMockFile(filePath: string): MockFile {
+  const cached = loadedFiles.get(filePath);
+  if (cached) return cached;
+
+  const file = readMockFile(filePath);
+  for (const response of [file.mock, ...(file.variants ?? []).map(variant => variant.response)]) {
+    if (response && typeof response === "object") serializedResponses.set(response, JSON.stringify(response));
+  }
+
+  loadedFiles.set(filePath, file);
+  return file;
+}
+
+/**
+ * Formats a mock file for writing, with the keys named after the operation
+ */
+export function formatMockFile(operationName: string, file: MockFile): string {
+  const content = {
+    metadata: file.metadata,
+    [`${operationName}Mock`]: file.mock,
+    ...(file.variants?.length ? { [`${operationName}Variants`]: file.variants } : {}),
+    ...(file.events?.length ? { [`${operationName}Events`]: file.events } : {}),
+  };
+  return `${JSON.stringify(content, null, 2)}\n`;
+}
+
+/**
+ * Path of the manifest of a mocks directory
+ */
+export function mockManifestPath(mocksDir: string): string {
+  return path.join(mocksDir, MANIFEST_FILE);
+}
+
+/**
+ * Manifest entry of a mock file: its metadata's provenance and the size of its default response
+ */
+export function describeMockFile(file: MockFile): MockManifestEntry {
+  const { operationName, schemaHash, lastUpdated, source } = file.metadata;
+  return { operationName, schemaHash, lastUpdated, source, bytes: Buffer.byteLength(JSON.stringify(file.mock) ?? "") };
+}
+
+/**
+ * Formats the manifest of a mocks directory for writing
+ */
+export function formatMockManifest(entries: MockManifestEntry[]): string {
+  return `${JSON.stringify({ operations: entries }, null, 2)}\n`;
+}
+
+/**
+ * Reads the manifest of a mocks directory, keyed by operation name
+ * @throws Error when it is missing or not valid JSON
+ */
+export function readMockManifest(mocksDir: string): Map<string, MockManifestEntry> {
+  let content: any;
+  try {
+    content = JSON.parse(readFileSync(mockManifestPath(mocksDir), "utf-8"));
+  } catch (error: any) {
+    const reason = error.code === "ENOENT" ? "not found" : error.message;
+    throw new Error(`❌ Cannot read ${MANIFEST_FILE}: ${reason} - run npm run mock:update-registry`);
+  }
+  if (!Array.isArray(content?.operations)) {
+    throw new Error(`❌ Malformed ${MANIFEST_FILE}: "operations" must be an array - run npm run mock:update-registry`);
+  }
+  return new Map(content.operations.map((entry: MockManifestEntry) => [entry.operationName, entry]));
+}
+
+/**
+ * Serializes a response for route.fulfill
+ * A loaded response that reaches the page unchanged reuses the body serialized at load.
+ */
+export function serializeResponse(response: unknown): string {
+  const serialized = response && typeof response === "object" ? serializedResponses.get(response) : undefined;
+  return serialized ?? JSON.stringify(response) ?? "null";
+}
+
+/**
+ * A Map whose keys are known up front and whose values are read on first access
+ */
+class LazyMap<T> extends Map<string, T> {
+  private readonly loaded = new Set<string>();
+
+  constructor(names: string[], private readonly load: (name: string) => T) {
+    super(names.map(name => [name, undefined as T]));
+  }
+
+  get(name: string): T | undefined {
+    if (super.has(name) && !this.loaded.has(name)) {
+      super.set(name, this.load(name));
+      this.loaded.add(name);
+    }
+    return super.get(name);
+  }
+
+  private loadAll(): void {
+    for (const name of Array.from(super.keys())) this.get(name);
+  }
+
+  values() {
+    this.loadAll();
+    return super.values();
+  }
+
+  entries() {
+    this.loadAll();
+    return super.entries();
+  }
+
+  forEach(callback: (value: T, key: string, map: Map<string, T>) => void, thisArg?: unknown): void {
+    this.loadAll();
+    super.forEach(callback, thisArg);
+  }
+
+  [Symbol.iterator]() {
+    return this.entries();
+  }
+}
+
+/**
+ * Map of operation names to a part of their mock files (response, variants, ...)
+ * has(), keys() and size never touch the disk; a file is read the first time a value is needed.
+ *
+ * @example
+ * lazyMockMap(__dirname, ["GetCountry", "GetCountries"], file => file.mock)
+ */
+export function lazyMockMap<T>(mocksDir: string, operationNames: string[], pick: (file: MockFile) => T): Map<string, T> {
+  return new LazyMap(operationNames, name => pick(loadMockFile(mockFilePath(mocksDir, name))));
+}
@@ -0,0 +1,141 @@
+import crypto from "crypto";
+import type { MockManifestEntry, MockRegistry } from "./mock-types";
+import { describeMockFile } from "./mock-loader";
+
+/**
+ * A recorded response for one specific set of operation variables
+ */
+export interface MockVariant {
+  variablesKey: string;
+  variables: Record<string, unknown>;
+  response: any;
+}
+
+/**
+ * Serializes a value with object keys sorted, so that
+ * `{ a: 1, b: 2 }` and `{ b: 2, a: 1 }` produce the same string
+ */
+function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value) ?? "null";
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .sort()
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(",")}}`;
+}
+
+/**
+ * Generates a stable hash of GraphQL variables
+ * Key order does not matter; missing and empty variables share one key
+ */
+export function variablesKey(variables?: Record<string, unknown> | null): string {
+  const normalized = stableStringify(variables ?? {});
+  return crypto.createHash("md5").update(normalized).digest("hex").slice(0, 12);
+}
+
+/**
+ * How a request's variables matched the recorded variants
+ * - exact / partial: a variant is served
+ * - default: the operation has no variants, its default mock is served
+ * - unmatched: the operation has variants but none fits, so the default would be another variables set's data
+ */
+export type VariantMatch = "exact" | "partial" | "default" | "unmatched";
+
+/**
+ * Finds the variant recorded for a request's variables
+ *
+ * Resolution order:
+ * 1. Exact - a variant recorded with exactly the request variables
+ * 2. Partial - the variant whose recorded variables all match the request
+ *    (the one matching the most variables wins, ties go to the first recorded)
+ * 3. None - "default" without variants, "unmatched" otherwise
+ */
+export function matchVariant(
+  variants: MockVariant[] = [],
+  variables?: Record<string, unknown> | null
+): { match: VariantMatch; variant?: MockVariant } {
+  const requestKey = variablesKey(variables);
+  const exact = variants.find(variant => variant.variablesKey === requestKey);
+  if (exact) return { match: "exact", variant: exact };
+
+  const requestVariables = variables ?? {};
+  let partial: MockVariant | undefined;
+  let partialSize = 0;
+
+  for (const variant of variants) {
+    const recordedNames = Object.keys(variant.variables);
+    if (recordedNames.length <= partialSize) continue;
+
+    const allMatch = recordedNames.every(
+      name => stableStringify(variant.variables[name]) === stableStringify(requestVariables[name])
+    );
+    if (allMatch) {
+      partial = variant;
+      partialSize = recordedNames.length;
+    }
+  }
+  if (partial) return { match: "partial", variant: partial };
+
+  return { match: variants.length > 0 ? "unmatched" : "default" };
+}
+
+/**
+ * Picks the response to serve for a request:
+ * the matching variant (exact, then partial), else the operation's default mock
+ */
+export function resolveMock(
+  defaultResponse: any,
+  variants: MockVariant[] = [],
+  variables?: Record<string, unknown> | null
+): any {
+  const { variant } = matchVariant(variants, variables);
+  return variant ? variant.response : defaultResponse;
+}
+
+/**
+ * Builds a registry from its maps, with the lookup helpers bound to them
+ * mock-registry.ts creates the registry of the recorded endpoint; tests can build
+ * small ones for other endpoints, e.g. `createMockRegistry({ mocks: new Map([["GetStock", { data: ... }]]) })`
+ */
+export function createMockRegistry(
+  maps: Partial<Pick<MockRegistry, "variants" | "metadata" | "manifest" | "subscriptionEvents">> & Pick<MockRegistry, "mocks">
+): MockRegistry {
+  const { mocks, variants = new Map(), metadata = new Map(), manifest = new Map(), subscriptionEvents = new Map() } = maps;
+
+  // Registries built in code have no manifest: describe their mocks from the metadata they were given
+  const describeMock = (operationName: string): MockManifestEntry => describeMockFile({
+    metadata: metadata.get(operationName) ?? { operationName, schemaHash: "", lastUpdated: "" },
+    mock: mocks.get(operationName),
+  });
+
+  return {
+    mocks,
+    variants,
+    metadata,
+    manifest,
+    subscriptionEvents,
+    hasMock(operationName) {
+      return mocks.has(operationName);
+    },
+    getMock(operationName, variables) {
+      return resolveMock(mocks.get(operationName), variants.get(operationName), variables);
+    },
+    matchVariables(operationName, variables) {
+      return matchVariant(variants.get(operationName), variables).match;
+    },
+    getSubscriptionEvents(operationName) {
+      return subscriptionEvents.get(operationName);
+    },
+    findPersistedQuery(sha256Hash) {
+      return Array.from(metadata.values()).find(entry => entry.persistedQueryHash === sha256Hash);
+    },
+    listMocks() {
+      return Array.from(mocks.keys(), operationName => manifest.get(operationName) ?? describeMock(operationName));
+    },
+  };
+}
@@ -3,43 +3,143 @@
  * 
  * Centralized registry of all GraphQL operation mocks.
  * Import this in test files instead of managing individual imports.
+ * Payloads live in *.mock.json files, read on first use and cached per worker.
  * 
  * ⚠️  AUTO-GENERATED - Do not edit manually!
  * Run: npm run mock:update-registry to regenerate
  */
 
-import { GetContinentMock } from "./GetContinent.mock";
-import { GetCountriesMock } from "./GetCountries.mock";
-import { GetCountryMock } from "./GetCountry.mock";
+import { createMockRegistry } from "./mock-matcher";
+import { CheckedPayload, MockManifestEntry, MockMetadata, MockRegistry, SubscriptionEvent } from "./mock-types";
+import { lazyMockMap, readMockManifest } from "./mock-loader";
+import type { CountryByCodeResponse } from "./CountryByCode.mock";
+import type { GetContinentResponse } from "./GetContinent.mock";
+import type { GetCountriesResponse } from "./GetCountries.mock";
+import type { GetCountryResponse } from "./GetCountry.mock";
+import type { OnCountryUpdatedResponse } from "./OnCountryUpdated.mock";
+
+/**
+ * Response type of every operation in the registry
+ * Key: operationName, Value: the response type declared in its *.mock.ts
+ */
+export interface GraphQLOperations {
+  CountryByCode: CountryByCodeResponse;
+  GetContinent: GetContinentResponse;
+  GetCountries: GetCountriesResponse;
+  GetCountry: GetCountryResponse;
+  OnCountryUpdated: OnCountryUpdatedResponse;
+}
+
+/**
+ * Name of an operation in the registry; a typo is a compile error
+ */
+export type OperationName = keyof GraphQLOperations;
+
+/**
+ * JSON payloads checked against their response types (compile time only, nothing is loaded)
+ */
+type CheckedPayloads = [
+  CheckedPayload<(typeof import("./CountryByCode.mock.json"))["CountryByCodeMock"], CountryByCodeResponse>,
+  CheckedPayload<(typeof import("./CountryByCode.mock.json"))["CountryByCodeVariants"][number]["response"], CountryByCodeResponse>,
+  CheckedPayload<(typeof import("./GetContinent.mock.json"))["GetContinentMock"], GetContinentResponse>,
+  CheckedPayload<(typeof import("./GetCountries.mock.json"))["GetCountriesMock"], GetCountriesResponse>,
+  CheckedPayload<(typeof import("./GetCountry.mock.json"))["GetCountryMock"], GetCountryResponse>,
+  CheckedPayload<(typeof import("./OnCountryUpdated.mock.json"))["OnCountryUpdatedMock"], OnCountryUpdatedResponse>,
+];
+
+/**
+ * Operations with a *.mock.json file in this directory
+ */
+const OPERATIONS = [
+  "CountryByCode",
+  "GetContinent",
+  "GetCountries",
+  "GetCountry",
+  "OnCountryUpdated",
+];
 
 /**
  * Map of GraphQL operation names to their mock responses
  * Key: operationName from GraphQL request
  * Value: Mock response object
  */
-export const GRAPHQL_MOCKS = new Map<string, any>([
-  ["GetContinent", GetContinentMock],
-  ["GetCountries", GetCountriesMock],
-  ["GetCountry", GetCountryMock],
-]);
+export const GRAPHQL_MOCKS = lazyMockMap(__dirname, OPERATIONS, file => file.mock);
+
+/**
+ * Map of GraphQL operation names to their variable-specific responses
+ * Key: operationName from GraphQL request
+ * Value: Variants keyed by a stable hash of the variables
+ */
+export const GRAPHQL_MOCK_VARIANTS = lazyMockMap(__dirname, [
+  "CountryByCode",
+], file => file.variants ?? []);
+
+/**
+ * Map of GraphQL operation names to their recording metadata
+ * (schema hash, last update, query and persisted query hash)
+ */
+export const GRAPHQL_MOCK_METADATA = lazyMockMap(__dirname, OPERATIONS, file => file.metadata);
+
+/**
+ * Map of subscription operation names to their scripted event streams
+ * Served over WebSocket (graphql-ws / subscriptions-transport-ws)
+ */
+export const GRAPHQL_SUBSCRIPTION_EVENTS = lazyMockMap(__dirname, [
+  "OnCountryUpdated",
+], file => file.events ?? []);
+
+/**
+ * Map of GraphQL operation names to their mock-manifest.json entry
+ * (schema hash, last update, HAR entry, endpoint, variables key and size)
+ */
+export const GRAPHQL_MOCK_MANIFEST = readMockManifest(__dirname);
+
+/**
+ * The registry of the recorded endpoint, for setupGraphQLMocks endpoint configs
+ */
+export const mockRegistry: MockRegistry = createMockRegistry({
+  mocks: GRAPHQL_MOCKS,
+  variants: GRAPHQL_MOCK_VARIANTS,
+  metadata: GRAPHQL_MOCK_METADATA,
+  manifest: GRAPHQL_MOCK_MANIFEST,
+  subscriptionEvents: GRAPHQL_SUBSCRIPTION_EVENTS,
+});
 
 /**
  * Helper to check if a mock exists for an operation
  */
-export function hasMock(operationName: string): boolean {
-  return GRAPHQL_MOCKS.has(operationName);
+export function hasMock(operationName: string): operationName is OperationName {
+  return mockRegistry.hasMock(operationName);
+}
+
+/**
+ * Helper to get a mock for an operation, typed with the operation's response
+ * Picks the exact variables match, then a partial match, then the default
+ */
+export function getMock<Name extends OperationName>(
+  operationName: Name,
+  variables?: Record<string, unknown> | null
+): GraphQLOperations[Name] {
+  return mockRegistry.getMock(operationName, variables);
+}
+
+/**
+ * Helper to get the scripted events of a subscription (undefined when it has none)
+ */
+export function getSubscriptionEvents(operationName: string): SubscriptionEvent[] | undefined {
+  return mockRegistry.getSubscriptionEvents(operationName);
 }
 
 /**
- * Helper to get a mock for an operation
+ * Helper to find the operation recorded with an automatic persisted query hash
  */
-export function getMock(operationName: string): any {
-  return GRAPHQL_MOCKS.get(operationName);
+export function findPersistedQuery(sha256Hash: string): MockMetadata | undefined {
+  return mockRegistry.findPersistedQuery(sha256Hash);
 }
 
 /**
- * Helper to list all available mock operations
+ * Helper to list all available mock operations with their provenance
  */
-export function listMocks(): string[] {
-  return Array.from(GRAPHQL_MOCKS.keys());
+export function listMocks(): MockManifestEntry[] {
+  return mockRegistry.listMocks();
 }
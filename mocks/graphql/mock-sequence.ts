@@ -0,0 +1,65 @@
+/**
+ * Response Sequences
+ *
+ * Repeated calls to one operation (polling, refresh, retries) get the next
+ * step each time: first A, then B, then repeat the last step or start over.
+ *
+ * @example
+ * ```typescript
+ * gql.override("GetCountries", sequence([{ data: { countries: [] } }, {}]));  // empty once, then the mock
+ * gql.override("GetCountry", failThenSucceed(2));                              // 503, 503, then the mock
+ * ```
+ */
+
+import { httpError } from "./mock-errors";
+import type { MockOverride } from "./mock-types";
+
+/**
+ * What happens after the last step
+ * - repeat-last: every later call gets the last step
+ * - cycle: start over from the first step
+ */
+export type SequenceEnd = "repeat-last" | "cycle";
+
+/**
+ * Overrides applied one per call, in order
+ * Call counts are kept by the override layer of each page, so a sequence
+ * defined once (e.g. in a scenario) starts from its first step in every test.
+ */
+export interface MockSequence {
+  __sequence: {
+    steps: MockOverride[];
+    then: SequenceEnd;
+  };
+}
+
+/**
+ * Picks the step for a call (0-based), following the sequence end
+ */
+export function sequenceStep<T>(steps: T[], callIndex: number, then: SequenceEnd = "repeat-last"): T {
+  if (callIndex < steps.length) return steps[callIndex];
+  return then === "cycle" ? steps[callIndex % steps.length] : steps[steps.length - 1];
+}
+
+/**
+ * Builds a sequence of overrides: deep-merge partials, transforms or mock-errors helpers
+ * An empty object `{}` serves the mock unchanged.
+ */
+export function sequence(steps: MockOverride[], options: { then?: SequenceEnd } = {}): MockSequence {
+  if (steps.length === 0) {
+    throw new Error("❌ A response sequence needs at least one step");
+  }
+  return { __sequence: { steps, then: options.then ?? "repeat-last" } };
+}
+
+/**
+ * Fails the first calls, then serves the mock unchanged - for retry logic
+ * @param failure - Override used for the failing calls (default: HTTP 503)
+ */
+export function failThenSucceed(times: number, failure: MockOverride = httpError(503)): MockSequence {
+  return sequence([...Array(times).fill(failure), {}]);
+}
+
+export function isMockSequence(value: unknown): value is MockSequence {
+  return !!value && typeof value === "object" && "__sequence" in value;
+}
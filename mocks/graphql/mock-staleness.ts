@@ -0,0 +1,135 @@
+/**
+ * Mock Staleness
+ *
+ * Recorded mocks drift from the live API as it evolves. Each recorded mock has a maximum
+ * age, counted from `metadata.lastUpdated` (when its HAR entry was recorded).
+ * Older mocks are reported when the suite starts, when setupGraphQLMocks serves them
+ * and by `npm run mock:stale`. Hand-written mocks (no `metadata.source`) never go stale.
+ */
+
+import type { MockManifestEntry } from "./mock-types";
+
+/**
+ * What a stale mock does
+ * - warn: log it and carry on
+ * - fail: fail the run at suite start; tests serving it fail like a strict-mode missing mock, whatever the mode
+ * - off: nothing
+ */
+export type StaleMockAction = "warn" | "fail" | "off";
+
+export interface StalenessPolicy {
+  /** Maximum age of every recorded mock, in days */
+  maxAgeDays: number;
+  /** Maximum age per operation, in days (overrides maxAgeDays) */
+  operations: Record<string, number>;
+  action: StaleMockAction;
+}
+
+/**
+ * Maximum ages of the recorded mocks
+ * Give operations whose data changes often (or rarely) their own age;
+ * MOCK_MAX_AGE_DAYS and MOCK_STALE override the default age and the action for one run.
+ *
+ * @example
+ * operations: { GetCountries: 365, CountryByCode: 30 }
+ */
+export const MOCK_STALENESS: StalenessPolicy = {
+  maxAgeDays: 90,
+  operations: {},
+  action: "warn",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIONS: StaleMockAction[] = ["warn", "fail", "off"];
+
+/**
+ * A recorded mock past its maximum age
+ */
+export interface StaleMock {
+  entry: MockManifestEntry;
+  /** Whole days since it was recorded */
+  ageDays: number;
+  maxAgeDays: number;
+}
+
+/**
+ * MOCK_STALENESS with the overrides of the environment
+ * MOCK_MAX_AGE_DAYS=<days> → default maximum age, MOCK_STALE=warn|fail|off → action
+ * @throws Error when a variable has an unusable value
+ */
+export function stalenessPolicy(): StalenessPolicy {
+  const policy = { ...MOCK_STALENESS };
+
+  const maxAge = process.env.MOCK_MAX_AGE_DAYS;
+  if (maxAge) {
+    policy.maxAgeDays = Number(maxAge);
+    if (!Number.isFinite(policy.maxAgeDays) || policy.maxAgeDays < 0) {
+      throw new Error(`❌ MOCK_MAX_AGE_DAYS must be a number of days, got "${maxAge}"`);
+    }
+  }
+
+  const action = process.env.MOCK_STALE;
+  if (action) {
+    if (!ACTIONS.includes(action as StaleMockAction)) {
+      throw new Error(`❌ MOCK_STALE must be one of ${ACTIONS.join(", ")}, got "${action}"`);
+    }
+    policy.action = action as StaleMockAction;
+  }
+
+  return policy;
+}
+
+/**
+ * Maximum age of one operation's mock, in days
+ */
+export function maxAgeDays(policy: StalenessPolicy, operationName: string): number {
+  return policy.operations[operationName] ?? policy.maxAgeDays;
+}
+
+/**
+ * Checks one mock against the policy (undefined when it is fresh, hand-written or the policy is off)
+ */
+export function findStaleMock(
+  entry: MockManifestEntry,
+  policy: StalenessPolicy,
+  now: number = Date.now()
+): StaleMock | undefined {
+  if (policy.action === "off" || !entry.source) return undefined;
+
+  const recordedAt = Date.parse(entry.lastUpdated);
+  const limit = maxAgeDays(policy, entry.operationName);
+  // An unreadable date can't prove the mock is fresh
+  if (Number.isNaN(recordedAt)) return { entry, ageDays: Infinity, maxAgeDays: limit };
+
+  const ageDays = Math.floor((now - recordedAt) / DAY_MS);
+  return ageDays > limit ? { entry, ageDays, maxAgeDays: limit } : undefined;
+}
+
+/**
+ * Every mock of a registry past its maximum age, oldest first
+ */
+export function findStaleMocks(
+  entries: MockManifestEntry[],
+  policy: StalenessPolicy,
+  now: number = Date.now()
+): StaleMock[] {
+  return entries
+    .flatMap(entry => findStaleMock(entry, policy, now) ?? [])
+    .sort((a, b) => b.ageDays - a.ageDays);
+}
+
+/**
+ * Command that records a fresh response for the mock
+ */
+export function rerecordCommand(stale: StaleMock): string {
+  return `npm run mock:update -- ${stale.entry.operationName} && npm run mock:extract`;
+}
+
+/**
+ * One line per stale mock, e.g. `GetCountries.mock.json recorded 290 days ago (2026-01-02), max 90 days`
+ */
+export function formatStaleMock(stale: StaleMock): string {
+  const { operationName, lastUpdated } = stale.entry;
+  const age = Number.isFinite(stale.ageDays) ? `${stale.ageDays} days ago` : `at an unreadable date`;
+  return `${operationName}.mock.json recorded ${age} (${lastUpdated.slice(0, 10)}), max ${stale.maxAgeDays} days`;
+}
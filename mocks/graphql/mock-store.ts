@@ -0,0 +1,286 @@
+import {
+  GraphQLNamedType,
+  GraphQLSchema,
+  SelectionSetNode,
+  getNamedType,
+  isAbstractType,
+  isObjectType,
+} from "graphql";
+import { ParsedOperation, parseGraphQLOperation } from "./graphql-document";
+import { collectFields, mergeSelectionSets, readField } from "./response-projection";
+import { loadMockSchema } from "./auto-mock";
+import { mockRegistry } from "./mock-registry";
+import type { MockRegistry } from "./mock-types";
+
+type Variables = Record<string, unknown>;
+type StoreRecord = Record<string, unknown>;
+
+/**
+ * Fields identifying an entity, in order of preference
+ */
+const KEY_FIELDS = ["id", "code"];
+
+/**
+ * In-memory data behind the GraphQL mocks of one page
+ *
+ * Entities are stored by schema type and key (`id` or `code`), seeded from the
+ * registry mocks. Served responses are overlaid with the stored entities, so a
+ * mutation handler changing an entity shows up in every later query.
+ */
+export interface MockStore {
+  /** A stored entity by type and key */
+  get(typeName: string, key: string): StoreRecord | undefined;
+  /** All stored entities of a type, in seeding / insertion order */
+  list(typeName: string): StoreRecord[];
+  /** Inserts an entity or merges fields into it; the record needs an `id` or `code` */
+  upsert(typeName: string, record: StoreRecord): StoreRecord;
+  /** Deletes an entity; lists no longer return it, single fields return null */
+  remove(typeName: string, key: string): void;
+  /** A named list for app state the schema has no type for (e.g. favourites) */
+  collection<T = unknown>(name: string): T[];
+  /** Back to the registry seed */
+  reset(): void;
+}
+
+/**
+ * Serves an operation from the store (typically a mutation or a query over app state)
+ * Returns the full response, e.g. `{ data: { addFavorite: { code } } }`
+ */
+export type MockHandler = (store: MockStore, variables: Variables) => any;
+
+function recordKey(record: StoreRecord): string | undefined {
+  const field = KEY_FIELDS.find(name => typeof record[name] === "string" || typeof record[name] === "number");
+  return field ? String(record[field]) : undefined;
+}
+
+/**
+ * Scalar (and scalar list) fields of an object; nested objects are entities of their own
+ */
+function scalarFields(object: StoreRecord): StoreRecord {
+  return Object.fromEntries(
+    Object.entries(object).filter(([, value]) =>
+      value === null || typeof value !== "object" ||
+      (Array.isArray(value) && value.every(item => item === null || typeof item !== "object"))
+    )
+  );
+}
+
+/**
+ * Compares stored and served field values (scalars, or lists of scalars)
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => item === b[index]);
+  }
+  return a === b;
+}
+
+/**
+ * Walks a response along the query and the schema, letting `fn` replace every
+ * object with a schema type (null drops it from lists)
+ * Copy-on-write: the input is never mutated, and comes back as it is when `fn` changed nothing.
+ */
+function mapEntities(
+  value: unknown,
+  selectionSet: SelectionSetNode,
+  type: GraphQLNamedType,
+  context: { schema: GraphQLSchema; parsed: ParsedOperation; variables: Variables },
+  fn: (typeName: string, object: StoreRecord) => StoreRecord | null
+): unknown {
+  if (value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) {
+    const items = value
+      .map(item => mapEntities(item, selectionSet, type, context, fn))
+      .filter(item => item !== null);
+    return items.length === value.length && items.every((item, index) => item === value[index]) ? value : items;
+  }
+
+  const source = value as StoreRecord;
+  const objectType = isAbstractType(type) && typeof source.__typename === "string"
+    ? context.schema.getType(source.__typename)
+    : type;
+  if (!objectType || !isObjectType(objectType)) return value;
+
+  let object = fn(objectType.name, source);
+  if (!object) return null;
+
+  const fieldDefinitions = objectType.getFields();
+  for (const [key, fieldNodes] of collectFields(selectionSet, object, context.parsed, context.variables)) {
+    const definition = fieldDefinitions[fieldNodes[0].name.value];
+    const subSelection = mergeSelectionSets(fieldNodes);
+    const fieldValue = readField(object, key, fieldNodes[0]);
+    if (!definition || !subSelection || fieldValue === undefined) continue;
+
+    const mapped = mapEntities(fieldValue, subSelection, getNamedType(definition.type), context, fn);
+    if (mapped === fieldValue) continue;
+
+    const responseKey = key in object ? key : fieldNodes[0].name.value;
+    if (object === source) object = { ...source };
+    object[responseKey] = mapped;
+  }
+  return object;
+}
+
+/**
+ * Root type of an operation, or null when the schema doesn't define it
+ */
+function rootType(schema: GraphQLSchema, parsed: ParsedOperation): GraphQLNamedType | null | undefined {
+  if (parsed.operationType === "mutation") return schema.getMutationType();
+  if (parsed.operationType === "subscription") return schema.getSubscriptionType();
+  return schema.getQueryType();
+}
+
+const seedCache = new WeakMap<MockRegistry, Map<string, Map<string, StoreRecord>>>();
+
+/**
+ * Collects the entities of every mock of a registry (default and variants), cached per worker
+ */
+function seedEntities(registry: MockRegistry): Map<string, Map<string, StoreRecord>> {
+  const cached = seedCache.get(registry);
+  if (cached) return cached;
+
+  const schema = loadMockSchema();
+  const entities = new Map<string, Map<string, StoreRecord>>();
+
+  for (const [operationName, metadata] of registry.metadata) {
+    if (!metadata.query) continue;
+
+    let parsed: ParsedOperation;
+    try {
+      parsed = parseGraphQLOperation(metadata.query, operationName);
+    } catch {
+      continue;
+    }
+    const root = rootType(schema, parsed);
+    if (!root) continue;
+
+    const responses = [
+      registry.mocks.get(operationName),
+      ...(registry.variants.get(operationName) ?? []).map(variant => variant.response),
+    ];
+    for (const response of responses) {
+      mapEntities(
+        structuredClone(response?.data ?? null),
+        parsed.operation.selectionSet,
+        root,
+        { schema, parsed, variables: {} },
+        (typeName, object) => {
+          const key = recordKey(object);
+          if (key !== undefined) {
+            const records = entities.get(typeName) ?? new Map<string, StoreRecord>();
+            records.set(key, { ...records.get(key), ...scalarFields(object) });
+            entities.set(typeName, records);
+          }
+          return object;
+        }
+      );
+    }
+  }
+
+  seedCache.set(registry, entities);
+  return entities;
+}
+
+/**
+ * Creates a store seeded from the mocks of a registry (default: the recorded endpoint)
+ * Each page gets its own store, so tests never see each other's changes;
+ * the seed is computed once per Playwright worker, the first time a store is used.
+ */
+export function createMockStore(registry: MockRegistry = mockRegistry): MockStore & {
+  isRemoved(typeName: string, key: string): boolean;
+  /** True until the first upsert or remove since the last reset */
+  isPristine(): boolean;
+} {
+  // Seeding reads every mock of the registry, so it waits for the first read or write
+  let seeded: Map<string, Map<string, StoreRecord>> | undefined;
+  let collections = new Map<string, unknown[]>();
+  let removed = new Set<string>();
+  let pristine = true;
+
+  const entities = () => seeded ??= new Map(
+    Array.from(seedEntities(registry), ([typeName, records]) => [typeName, structuredClone(records)])
+  );
+
+  return {
+    get(typeName: string, key: string) {
+      return entities().get(typeName)?.get(key);
+    },
+    list(typeName: string) {
+      return Array.from(entities().get(typeName)?.values() ?? []);
+    },
+    upsert(typeName: string, record: StoreRecord) {
+      const key = recordKey(record);
+      if (key === undefined) {
+        throw new Error(`❌ Cannot store a ${typeName} without an ${KEY_FIELDS.join(" or ")} field`);
+      }
+      const records = entities().get(typeName) ?? new Map<string, StoreRecord>();
+      const merged = { ...records.get(key), ...record };
+      records.set(key, merged);
+      entities().set(typeName, records);
+      removed.delete(`${typeName}:${key}`);
+      pristine = false;
+      return merged;
+    },
+    remove(typeName: string, key: string) {
+      entities().get(typeName)?.delete(key);
+      removed.add(`${typeName}:${key}`);
+      pristine = false;
+    },
+    collection<T = unknown>(name: string): T[] {
+      if (!collections.has(name)) collections.set(name, []);
+      return collections.get(name) as T[];
+    },
+    reset() {
+      seeded = undefined;
+      collections = new Map();
+      removed = new Set();
+      pristine = true;
+    },
+    isRemoved(typeName: string, key: string) {
+      return removed.has(`${typeName}:${key}`);
+    },
+    isPristine() {
+      return pristine;
+    },
+  };
+}
+
+/**
+ * Overlays a response with the store: stored fields replace recorded ones,
+ * removed entities disappear from lists (null elsewhere)
+ * Responses for operations or fields the schema doesn't know are left as they are,
+ * and so is every response until the store is first written to.
+ */
+export function readFromStore(
+  response: any,
+  parsed: ParsedOperation,
+  variables: Variables | null | undefined,
+  store: ReturnType<typeof createMockStore>
+): any {
+  if (!response || typeof response !== "object" || !response.data || store.isPristine()) return response;
+
+  const schema = loadMockSchema();
+  const root = rootType(schema, parsed);
+  if (!root) return response;
+
+  const data = mapEntities(
+    response.data,
+    parsed.operation.selectionSet,
+    root,
+    { schema, parsed, variables: variables ?? {} },
+    (typeName, object) => {
+      const key = recordKey(object);
+      if (key === undefined) return object;
+      if (store.isRemoved(typeName, key)) return null;
+
+      // Only scalar fields of the response are replaced; nested entities are overlaid on their own
+      const stored = scalarFields(store.get(typeName, key) ?? {});
+      const replaced = Object.keys(stored).filter(field =>
+        (!(field in object) || field in scalarFields(object)) && !sameValue(object[field], stored[field])
+      );
+      if (replaced.length === 0) return object;
+      return { ...object, ...Object.fromEntries(replaced.map(field => [field, stored[field]])) };
+    }
+  );
+  return data === response.data ? response : { ...response, data };
+}
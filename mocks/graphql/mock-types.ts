@@ -0,0 +1,115 @@
+/**
+ * Shared types for GraphQL mock files
+ */
+
+import type { MockVariant, VariantMatch } from "./mock-matcher";
+import type { GraphQLFormattedError } from "./mock-errors";
+
+/**
+ * Where a mock's default response was recorded
+ */
+export interface MockSource {
+  /** HAR file, relative to the project root */
+  harFile: string;
+  /** Position of the entry in the HAR's log.entries */
+  entryIndex: number;
+  /** URL the operation was sent to, without the query string */
+  endpoint: string;
+  /** Hash of the variables the response was recorded with */
+  variablesKey: string;
+}
+
+/**
+ * Metadata stored in every *.mock.json file
+ */
+export interface MockMetadata {
+  operationName: string;
+  schemaHash: string;
+  lastUpdated: string;
+  /** Query document the mock was recorded with */
+  query?: string;
+  /** Automatic persisted query (APQ) hash: sha256 of the query */
+  persistedQueryHash?: string;
+  /** Set by mock:extract; hand-written mocks have none */
+  source?: MockSource;
+}
+
+/**
+ * One operation of mock-manifest.json, written with mock-registry.ts
+ */
+export interface MockManifestEntry extends Pick<MockMetadata, "operationName" | "schemaHash" | "lastUpdated" | "source"> {
+  /** Size of the serialized default response */
+  bytes: number;
+}
+
+/**
+ * Transforms a mock response; receives a copy, so it may mutate and return it
+ */
+export type MockTransform = (mock: any, variables: Record<string, unknown>) => any;
+
+/**
+ * A partial response to deep-merge, or a function that returns the new response
+ */
+export type MockOverride = MockTransform | Record<string, any>;
+
+/**
+ * Any subset of a value's fields, at every depth (list items included)
+ */
+export type DeepPartial<T> =
+  T extends (infer Item)[] ? DeepPartial<Item>[]
+  : T extends object ? { [Key in keyof T]?: DeepPartial<T[Key]> }
+  : T;
+
+/**
+ * MockOverride checked against an operation's response type:
+ * a partial response (`data` may be null and `errors` added, as in a failed operation)
+ * or a transform receiving the typed mock
+ */
+export type TypedMockOverride<Response> =
+  | ((mock: Response, variables: Record<string, unknown>) => any)
+  | (Response extends { data: infer Data }
+    ? { data?: DeepPartial<Data> | null; errors?: GraphQLFormattedError[]; extensions?: Record<string, unknown> }
+    : Record<string, any>);
+
+/**
+ * Compile-time check of a JSON payload against its operation's response type
+ * mock-registry.ts lists one per payload, so `npm run test:typecheck` catches a
+ * *.mock.json that no longer matches its *.mock.ts
+ */
+export type CheckedPayload<Payload extends Response, Response> = Payload;
+
+/**
+ * One scripted message of a mocked subscription, sent in order after `subscribe`
+ * `delay` waits that many milliseconds after the previous event
+ */
+export type SubscriptionEvent =
+  | { type: "next"; payload: any; delay?: number }
+  | { type: "error"; errors: { message: string; [key: string]: unknown }[]; delay?: number }
+  | { type: "complete"; delay?: number };
+
+/**
+ * The mocks of one GraphQL endpoint, as generated in mock-registry.ts
+ * Endpoints have their own registry, so operation names never clash between them.
+ */
+export interface MockRegistry {
+  /** Default response per operation name */
+  mocks: Map<string, any>;
+  /** Responses recorded for specific variables */
+  variants: Map<string, MockVariant[]>;
+  metadata: Map<string, MockMetadata>;
+  /** Provenance and size of each mock (from mock-manifest.json for the recorded endpoint) */
+  manifest: Map<string, MockManifestEntry>;
+  /** Scripted event streams of subscriptions */
+  subscriptionEvents: Map<string, SubscriptionEvent[]>;
+  hasMock(operationName: string): boolean;
+  /** Exact variables match, then a partial match, then the default */
+  getMock(operationName: string, variables?: Record<string, unknown> | null): any;
+  /** How getMock matches the variables; "unmatched" when variants exist but none fits */
+  matchVariables(operationName: string, variables?: Record<string, unknown> | null): VariantMatch;
+  /** Scripted events of a subscription (undefined when it has none) */
+  getSubscriptionEvents(operationName: string): SubscriptionEvent[] | undefined;
+  /** The operation recorded with an automatic persisted query hash */
+  findPersistedQuery(sha256Hash: string): MockMetadata | undefined;
+  /** Manifest entry of every operation, in registry order */
+  listMocks(): MockManifestEntry[];
+}
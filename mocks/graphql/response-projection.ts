@@ -0,0 +1,224 @@
+import {
+  DirectiveNode,
+  FieldNode,
+  GraphQLCompositeType,
+  GraphQLSchema,
+  Kind,
+  SelectionSetNode,
+  ValueNode,
+  getNamedType,
+  isAbstractType,
+  isCompositeType,
+  isObjectType,
+  valueFromASTUntyped,
+} from "graphql";
+import { ParsedOperation } from "./graphql-document";
+
+type Variables = Record<string, unknown>;
+
+/**
+ * Where a selection set sits in the schema: the type its field returns (possibly an interface or union)
+ */
+export interface SchemaPosition {
+  schema: GraphQLSchema;
+  type: GraphQLCompositeType;
+}
+
+/**
+ * Position of the operation's root selection set (Query, Mutation or Subscription)
+ */
+export function rootPosition(schema: GraphQLSchema | undefined, parsed: ParsedOperation): SchemaPosition | undefined {
+  const type =
+    parsed.operationType === "mutation" ? schema?.getMutationType()
+    : parsed.operationType === "subscription" ? schema?.getSubscriptionType()
+    : schema?.getQueryType();
+  return schema && type ? { schema, type } : undefined;
+}
+
+/**
+ * Concrete type name of a mock object: its `__typename`, else the field's type when that is an object type
+ */
+function runtimeTypeName(source: Record<string, unknown>, position: SchemaPosition | undefined): string | undefined {
+  if (typeof source.__typename === "string") return source.__typename;
+  return position && isObjectType(position.type) ? position.type.name : undefined;
+}
+
+/**
+ * Position of a field's value, when the schema knows the field
+ */
+export function fieldPosition(
+  source: Record<string, unknown>,
+  field: FieldNode,
+  position: SchemaPosition | undefined
+): SchemaPosition | undefined {
+  if (!position) return undefined;
+
+  // Fields selected through a fragment belong to the concrete type, not the interface or union
+  const runtimeType = position.schema.getType(runtimeTypeName(source, position) ?? "");
+  const parentType = isObjectType(runtimeType) ? runtimeType : position.type;
+  if (!("getFields" in parentType)) return undefined;
+
+  const definition = parentType.getFields()[field.name.value];
+  const type = definition && getNamedType(definition.type);
+  return type && isCompositeType(type) ? { schema: position.schema, type } : undefined;
+}
+
+/**
+ * Evaluates @skip / @include on a selection
+ */
+export function shouldInclude(directives: readonly DirectiveNode[] | undefined, variables: Variables): boolean {
+  if (!directives) return true;
+
+  const readIf = (directive: DirectiveNode): boolean => {
+    const arg = directive.arguments?.find(a => a.name.value === "if");
+    return arg ? Boolean(valueFromASTUntyped(arg.value as ValueNode, variables)) : false;
+  };
+
+  for (const directive of directives) {
+    if (directive.name.value === "skip" && readIf(directive)) return false;
+    if (directive.name.value === "include" && !readIf(directive)) return false;
+  }
+  return true;
+}
+
+/**
+ * Checks if a fragment type condition applies to a mock object
+ * Interface and union conditions match their possible types. When neither a `__typename`
+ * in the mock nor the schema tells the concrete type, the condition is assumed to match.
+ */
+function typeConditionMatches(
+  typeCondition: string | undefined,
+  source: Record<string, unknown>,
+  position: SchemaPosition | undefined
+): boolean {
+  if (!typeCondition) return true;
+  const typename = runtimeTypeName(source, position);
+  if (typename === undefined || typename === typeCondition) return true;
+
+  const conditionType = position?.schema.getType(typeCondition);
+  const runtimeType = position?.schema.getType(typename);
+  return !!conditionType && isAbstractType(conditionType) && isObjectType(runtimeType) &&
+    position!.schema.isSubType(conditionType, runtimeType);
+}
+
+/**
+ * Groups the fields of a selection set by response key (alias or field name),
+ * flattening fragments the same way a GraphQL executor does
+ */
+export function collectFields(
+  selectionSet: SelectionSetNode,
+  source: Record<string, unknown>,
+  parsed: ParsedOperation,
+  variables: Variables,
+  position?: SchemaPosition,
+  fields: Map<string, FieldNode[]> = new Map()
+): Map<string, FieldNode[]> {
+  for (const selection of selectionSet.selections) {
+    if (!shouldInclude(selection.directives, variables)) continue;
+
+    if (selection.kind === Kind.FIELD) {
+      const key = selection.alias?.value ?? selection.name.value;
+      fields.set(key, [...(fields.get(key) ?? []), selection]);
+    } else if (selection.kind === Kind.INLINE_FRAGMENT) {
+      if (typeConditionMatches(selection.typeCondition?.name.value, source, position)) {
+        collectFields(selection.selectionSet, source, parsed, variables, position, fields);
+      }
+    } else {
+      const fragment = parsed.fragmentDefinitions.get(selection.name.value);
+      if (fragment && typeConditionMatches(fragment.typeCondition.name.value, source, position)) {
+        collectFields(fragment.selectionSet, source, parsed, variables, position, fields);
+      }
+    }
+  }
+  return fields;
+}
+
+/**
+ * Reads a field from a mock object
+ * Mocks recorded with the alias are keyed by the alias, otherwise by field name.
+ * A `__typename` the mock lacks is filled in from the schema (as clients like Apollo request it everywhere).
+ */
+export function readField(
+  source: Record<string, unknown>,
+  key: string,
+  field: FieldNode,
+  position?: SchemaPosition
+): unknown {
+  if (key in source) return source[key];
+  if (field.name.value === "__typename" && !("__typename" in source)) return runtimeTypeName(source, position);
+  return source[field.name.value];
+}
+
+/**
+ * Merges the sub-selections of every field node sharing one response key
+ */
+export function mergeSelectionSets(fieldNodes: FieldNode[]): SelectionSetNode | undefined {
+  const selections = fieldNodes.flatMap(node => node.selectionSet?.selections ?? []);
+  return selections.length > 0 ? { kind: Kind.SELECTION_SET, selections } : undefined;
+}
+
+function projectValue(
+  value: unknown,
+  selectionSet: SelectionSetNode | undefined,
+  parsed: ParsedOperation,
+  variables: Variables,
+  position: SchemaPosition | undefined
+): unknown {
+  if (value === null || value === undefined || !selectionSet) return value;
+  if (Array.isArray(value)) {
+    const items = value.map(item => projectValue(item, selectionSet, parsed, variables, position));
+    return items.every((item, index) => item === value[index]) ? value : items;
+  }
+  if (typeof value !== "object") return value;
+
+  return projectObject(value as Record<string, unknown>, selectionSet, parsed, variables, position);
+}
+
+function projectObject(
+  source: Record<string, unknown>,
+  selectionSet: SelectionSetNode,
+  parsed: ParsedOperation,
+  variables: Variables,
+  position: SchemaPosition | undefined
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  const fields = collectFields(selectionSet, source, parsed, variables, position);
+
+  for (const [key, fieldNodes] of fields) {
+    const value = readField(source, key, fieldNodes[0], position);
+    // Missing fields stay missing - a server would have errored instead
+    if (value === undefined) continue;
+
+    const valuePosition = fieldPosition(source, fieldNodes[0], position);
+    result[key] = projectValue(value, mergeSelectionSets(fieldNodes), parsed, variables, valuePosition);
+  }
+
+  // Nothing pruned: keep the mock object, so an unchanged response can reuse its serialized body
+  const sourceKeys = Object.keys(source);
+  const resultKeys = Object.keys(result);
+  const unchanged = sourceKeys.length === resultKeys.length &&
+    resultKeys.every((key, index) => key === sourceKeys[index] && result[key] === source[key]);
+  return unchanged ? source : result;
+}
+
+/**
+ * Prunes a stored mock response down to the fields the client requested
+ *
+ * Honours aliases, fragments (named and inline) and @include / @skip.
+ * With the API's schema, `__typename` is filled in where the mock lacks it and fragments on
+ * interfaces and unions match their possible types.
+ * `errors` and `extensions` are passed through untouched; a mock holding exactly
+ * the requested fields is returned as it is.
+ */
+export function projectResponse(
+  response: any,
+  parsed: ParsedOperation,
+  variables?: Variables | null,
+  schema?: GraphQLSchema
+): any {
+  if (!response || typeof response !== "object" || !response.data) return response;
+
+  const position = rootPosition(schema, parsed);
+  const data = projectObject(response.data, parsed.operation.selectionSet, parsed, variables ?? {}, position);
+  return data === response.data ? response : { ...response, data };
+}
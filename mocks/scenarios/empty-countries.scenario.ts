@@ -0,0 +1,9 @@
+import type { MockScenario } from "./scenario-types";
+
+export const scenario: MockScenario = {
+  name: "empty-countries",
+  description: "Country list loads but has no entries",
+  graphql: {
+    GetCountries: { data: { countries: [] } },
+  },
+};
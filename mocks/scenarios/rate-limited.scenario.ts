@@ -0,0 +1,10 @@
+import type { MockScenario } from "./scenario-types";
+import { rateLimited } from "../graphql/mock-errors";
+
+export const scenario: MockScenario = {
+  name: "rate-limited",
+  description: "Country list requests are throttled with 429 and Retry-After: 30",
+  graphql: {
+    GetCountries: rateLimited(30),
+  },
+};
@@ -0,0 +1,67 @@
+/**
+ * Mock Scenario Registry
+ * 
+ * Named bundles of GraphQL / REST overrides (*.scenario.ts in this folder).
+ * Pick one for a run with MOCK_SCENARIO=<name>, or for a test with
+ * test.use({ mockScenario: "<name>" }).
+ */
+
+import { GRAPHQL_MOCKS } from "../graphql/mock-registry";
+import type { MockScenario } from "./scenario-types";
+import { scenario as emptyCountries } from "./empty-countries.scenario";
+import { scenario as rateLimited } from "./rate-limited.scenario";
+import { scenario as unauthorized } from "./unauthorized.scenario";
+import { scenario as weatherFetchFailed } from "./weather-fetch-failed.scenario";
+import { scenario as weatherRetry } from "./weather-retry.scenario";
+
+/**
+ * Map of scenario names to their definitions
+ */
+export const MOCK_SCENARIOS = new Map<string, MockScenario>(
+  [emptyCountries, rateLimited, unauthorized, weatherFetchFailed, weatherRetry].map(scenario => [scenario.name, scenario])
+);
+
+/**
+ * Helper to list all available scenarios
+ */
+export function listScenarios(): { name: string; description: string }[] {
+  return Array.from(MOCK_SCENARIOS.values()).map(({ name, description }) => ({ name, description }));
+}
+
+/**
+ * Lists the operations a scenario refers to that are not in the GraphQL mock registry
+ */
+function findUnknownOperations(scenario: MockScenario): string[] {
+  return Object.keys(scenario.graphql ?? {}).filter(operationName => !GRAPHQL_MOCKS.has(operationName));
+}
+
+/**
+ * Checks that every scenario only refers to operations in the GraphQL mock registry
+ * Returns one message per problem (empty when all scenarios are valid)
+ */
+export function validateScenarios(): string[] {
+  return Array.from(MOCK_SCENARIOS.values()).flatMap(scenario =>
+    findUnknownOperations(scenario).map(
+      operationName => `Scenario "${scenario.name}" refers to unknown operation: ${operationName}`
+    )
+  );
+}
+
+/**
+ * Helper to get a scenario by name
+ * @throws Error when the scenario doesn't exist or refers to unknown operations
+ */
+export function getScenario(name: string): MockScenario {
+  const scenario = MOCK_SCENARIOS.get(name);
+  if (!scenario) {
+    const available = Array.from(MOCK_SCENARIOS.keys()).join(", ");
+    throw new Error(`❌ Unknown mock scenario: ${name} (available: ${available})`);
+  }
+
+  const unknownOperations = findUnknownOperations(scenario);
+  if (unknownOperations.length > 0) {
+    throw new Error(`❌ Scenario "${name}" refers to unknown operation(s): ${unknownOperations.join(", ")}`);
+  }
+
+  return scenario;
+}
@@ -0,0 +1,47 @@
+import type { TypedMockOverride } from "../graphql/mock-types";
+import type { MockSequence, SequenceEnd } from "../graphql/mock-sequence";
+import type { GraphQLOperations, OperationName } from "../graphql/mock-registry";
+
+/**
+ * How a scenario answers one REST call
+ */
+export interface RestScenarioResponse {
+  /** Abort the request with this error code instead of answering (e.g. "failed") */
+  abort?: string;
+  status?: number;
+  headers?: Record<string, string>;
+  /** JSON body, serialized for you */
+  json?: unknown;
+  /** Raw body, used when json is not set */
+  body?: string;
+}
+
+/**
+ * A REST route a scenario answers instead of the app's usual mock or the network
+ */
+export interface RestScenarioRoute extends RestScenarioResponse {
+  /** URL glob, as passed to page.route() */
+  url: string;
+  /** Only handle this HTTP method (default: any) */
+  method?: string;
+  /** Answers for repeated calls, one per call; replaces the single answer above */
+  sequence?: RestScenarioResponse[];
+  /** After the last sequence step (default: repeat-last) */
+  then?: SequenceEnd;
+  /** HAR file the "recorded" network profile replays this route's timings from (default: no delay) */
+  har?: string;
+}
+
+/**
+ * A named bundle of GraphQL and REST overrides describing one app state
+ */
+export interface MockScenario {
+  name: string;
+  description: string;
+  /**
+   * Operation name → override (deep-merge partial, transform or sequence), or "remove" to simulate a missing mock
+   * Names and partials are checked against the recorded registry.
+   */
+  graphql?: { [Name in OperationName]?: TypedMockOverride<GraphQLOperations[Name]> | MockSequence | "remove" };
+  rest?: RestScenarioRoute[];
+}
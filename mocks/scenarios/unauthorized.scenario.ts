@@ -0,0 +1,15 @@
+import type { MockScenario } from "./scenario-types";
+import { errorResponse, graphqlError } from "../graphql/mock-errors";
+
+const unauthorized = errorResponse(graphqlError("Unauthorized", { code: "UNAUTHENTICATED" }));
+
+export const scenario: MockScenario = {
+  name: "unauthorized",
+  description: "Every GraphQL operation is rejected with an UNAUTHENTICATED error",
+  graphql: {
+    CountryByCode: unauthorized,
+    GetContinent: unauthorized,
+    GetCountries: unauthorized,
+    GetCountry: unauthorized,
+  },
+};
@@ -0,0 +1,9 @@
+import type { MockScenario } from "./scenario-types";
+
+export const scenario: MockScenario = {
+  name: "weather-fetch-failed",
+  description: "Open-Meteo forecast request fails at the network level",
+  rest: [
+    { url: "**://api.open-meteo.com/v1/forecast**", method: "GET", abort: "failed", har: "mocks/open-meteo.har" },
+  ],
+};
@@ -0,0 +1,15 @@
+import type { MockScenario } from "./scenario-types";
+import { createMockWithTemperature } from "../open-meteo-mock";
+
+export const scenario: MockScenario = {
+  name: "weather-retry",
+  description: "Open-Meteo forecast fails once, then answers with 21.7°C",
+  rest: [
+    {
+      url: "**://api.open-meteo.com/v1/forecast**",
+      method: "GET",
+      har: "mocks/open-meteo.har",
+      sequence: [{ abort: "failed" }, { json: createMockWithTemperature(21.7) }],
+    },
+  ],
+};
@@ -1,4 +1,5 @@
 import { defineConfig, devices } from '@playwright/test';
+import type { MockFixtureOptions } from './tests/utils/mock-fixtures';
 
 /**
  * Read environment variables from file.
@@ -11,7 +12,7 @@ import { defineConfig, devices } from '@playwright/test';
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
-export default defineConfig({
+export default defineConfig<MockFixtureOptions>({
   testDir: './tests',
   /* Run tests in files in parallel */
   fullyParallel: true,
@@ -23,6 +24,8 @@ export default defineConfig({
   workers: process.env.CI ? 1 : undefined,
   /* Reporter to use. See https://playwright.dev/docs/test-reporters */
   reporter: 'html',
+  /* Reports mocks past their maximum age before any test runs (see mocks/graphql/mock-staleness.ts) */
+  globalSetup: require.resolve('./tests/utils/global-setup'),
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('')`. */
@@ -35,9 +38,14 @@ export default defineConfig({
 
   /* Configure projects for major browsers */
   projects: [
+    /* Mock options are read by the gqlMock / restMock fixtures (see tests/utils/mock-fixtures.ts) */
     {
-      name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
+      name: 'mocked',
+      use: { ...devices['Desktop Chrome'], mockMode: 'mocked' },
+    },
+    {
+      name: 'live',
+      use: { ...devices['Desktop Chrome'], mockMode: 'live' },
     },
 
     // {
@@ -0,0 +1,368 @@
+/**
+ * Check the GraphQL mock registry for inconsistencies
+ *
+ * Compares the mock files with graphql-operations.har and mock-registry.ts:
+ * - orphans: mock files whose operation is not in the HAR, HAR operations without a mock,
+ *   type modules (*.mock.ts) without a data file
+ * - names: data keys and response types that don't follow the operation name
+ * - a registry or manifest that is out of date with the directory
+ * - operations recorded at several endpoints (their responses would share one mock file)
+ * - stale metadata: schema hash, query, persisted query hash or HAR source no longer matching
+ * - stale data: responses, variants or lastUpdated that differ from their HAR recording
+ *
+ * Exits with 1 when something is inconsistent. Does NOT modify any files.
+ */
+
+import { readFile, readdir } from "fs/promises";
+import path from "path";
+import { isDeepStrictEqual } from "util";
+import {
+  extractGraphQLMockVariants,
+  extractGraphQLMocks,
+  extractGraphQLOperations,
+  extractMockSources,
+  extractOperationEndpoints,
+  extractRecordingDates,
+  generateSchemaHash,
+} from "../mocks/graphql/mock-extractor";
+import { MockFile, checkMockFile, listMockFiles, mockFilePath, readMockFile } from "../mocks/graphql/mock-loader";
+import { parseGraphQLOperation, persistedQueryHash } from "../mocks/graphql/graphql-document";
+import {
+  MANIFEST_PATH,
+  REGISTRY_PATH,
+  generateMockManifest,
+  generateMockRegistry,
+  hasResponseType,
+  readMockTypes,
+} from "./update-registry";
+
+const HAR_PATH = path.join(process.cwd(), "mocks", "graphql-operations.har");
+const MOCKS_DIR = path.join(process.cwd(), "mocks", "graphql");
+
+interface Finding {
+  /** Errors make the command fail; warnings are reported only */
+  severity: "error" | "warning";
+  check: string;
+  message: string;
+  /** Command or edit that resolves it */
+  fix?: string;
+}
+
+/**
+ * Subscriptions run over WebSocket, so their mocks are hand-written and never in the HAR
+ */
+function isSubscription(file: MockFile): boolean {
+  if (file.events !== undefined) return true;
+  try {
+    return !!file.metadata.query && parseGraphQLOperation(file.metadata.query).operationType === "subscription";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Hand-written mocks (subscriptions, fixtures without `metadata.source`) are not expected in the HAR
+ */
+function isHandWritten(file: MockFile): boolean {
+  return isSubscription(file) || !file.metadata.source;
+}
+
+/**
+ * Reads every mock data file; malformed ones become findings instead
+ */
+async function loadMockFiles(operationNames: string[], findings: Finding[]): Promise<Map<string, MockFile>> {
+  const files = new Map<string, MockFile>();
+
+  for (const operationName of operationNames) {
+    const filePath = mockFilePath(MOCKS_DIR, operationName);
+    try {
+      files.set(operationName, readMockFile(filePath));
+      continue;
+    } catch (error: any) {
+      // Naming problems get their own check; anything else is reported as the loader words it
+      const content = await readFile(filePath, "utf-8").then(JSON.parse).catch(() => undefined);
+      const problems = content === undefined ? [] : checkMockFile(content, operationName);
+      const isNameProblem = (problem: string) =>
+        problem.includes(`"${operationName}Mock"`) || problem.startsWith("metadata.operationName");
+
+      for (const problem of problems.filter(isNameProblem)) {
+        findings.push({
+          severity: "error",
+          check: "Names",
+          message: `${path.basename(filePath)}: ${problem}`,
+          fix: `Name the response "${operationName}Mock" and set metadata.operationName to "${operationName}"`,
+        });
+      }
+      if (problems.length === 0 || !problems.every(isNameProblem)) {
+        findings.push({ severity: "error", check: "Malformed", message: error.message, fix: "npm run mock:extract" });
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Mock files without a HAR operation, HAR operations without a mock file,
+ * and type modules without a data file
+ */
+async function checkOrphans(
+  mockNames: string[],
+  files: Map<string, MockFile>,
+  harOperations: string[]
+): Promise<Finding[]> {
+  const findings: Finding[] = [];
+
+  for (const [operationName, file] of files) {
+    if (harOperations.includes(operationName) || isHandWritten(file)) continue;
+    findings.push({
+      severity: "error",
+      check: "Orphans",
+      message: `${operationName}.mock.json has no operation in graphql-operations.har`,
+      fix: `Record it (npm run mock:record:interactive) or delete ${operationName}.mock.json`,
+    });
+  }
+
+  for (const operationName of harOperations) {
+    if (mockNames.includes(operationName)) continue;
+    findings.push({
+      severity: "error",
+      check: "Orphans",
+      message: `${operationName} is recorded in graphql-operations.har but has no mock file`,
+      fix: "npm run mock:extract",
+    });
+  }
+
+  const typeModules = (await readdir(MOCKS_DIR))
+    .filter(file => file.endsWith(".mock.ts"))
+    .map(file => file.replace(".mock.ts", ""));
+  for (const operationName of typeModules) {
+    if (mockNames.includes(operationName)) continue;
+    findings.push({
+      severity: "error",
+      check: "Orphans",
+      message: `${operationName}.mock.ts has no ${operationName}.mock.json`,
+      fix: `Delete ${operationName}.mock.ts, or extract the operation (npm run mock:extract)`,
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Response types that don't follow `<operationName>Response`
+ */
+async function checkTypeNames(files: Map<string, MockFile>): Promise<Finding[]> {
+  const findings: Finding[] = [];
+
+  for (const operationName of files.keys()) {
+    const types = await readMockTypes(operationName);
+    if (hasResponseType(types, operationName)) continue;
+
+    if (!types) {
+      findings.push({
+        severity: "warning",
+        check: "Names",
+        message: `${operationName} has no ${operationName}.mock.ts - its mock is typed as any`,
+        fix: `Add ${operationName}.mock.ts exporting ${operationName}Response`,
+      });
+      continue;
+    }
+
+    const found = Array.from(types.matchAll(/export (?:interface|type) (\w+)/g), match => match[1]);
+    findings.push({
+      severity: "error",
+      check: "Names",
+      message: `${operationName}.mock.ts exports no ${operationName}Response (found: ${found.join(", ") || "nothing"})`,
+      fix: `Rename the response type to ${operationName}Response`,
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * mock-registry.ts and mock-manifest.json as generated from the directory right now
+ */
+async function checkRegistry(): Promise<Finding[]> {
+  const generated: [string, string, () => Promise<string | null>][] = [
+    ["mock-registry.ts", REGISTRY_PATH, generateMockRegistry],
+    ["mock-manifest.json", MANIFEST_PATH, generateMockManifest],
+  ];
+  const findings: Finding[] = [];
+
+  for (const [fileName, filePath, generate] of generated) {
+    let expected: string | null;
+    try {
+      expected = await generate();
+    } catch {
+      // Malformed mock files are reported on their own
+      findings.push({
+        severity: "warning",
+        check: "Registry",
+        message: `${fileName} not compared: it can't be generated while a mock file is malformed`,
+      });
+      continue;
+    }
+
+    const current = await readFile(filePath, "utf-8").catch(() => null);
+    if (expected === null || current === expected) continue;
+
+    findings.push({
+      severity: "error",
+      check: "Registry",
+      message: current === null ? `${fileName} is missing` : `${fileName} is out of date with the mock files`,
+      fix: "npm run mock:update-registry",
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Operations recorded at more than one endpoint
+ */
+async function checkEndpoints(endpoints: Map<string, string[]>): Promise<Finding[]> {
+  return Array.from(endpoints)
+    .filter(([, urls]) => urls.length > 1)
+    .map(([operationName, urls]) => ({
+      severity: "error" as const,
+      check: "Endpoints",
+      message: `${operationName} is recorded at several endpoints: ${urls.join(", ")}`,
+      fix: "Rename the operation on one endpoint, or give that endpoint its own registry",
+    }));
+}
+
+/**
+ * Metadata that no longer describes the HAR recording or its own query
+ */
+async function checkMetadata(files: Map<string, MockFile>): Promise<Finding[]> {
+  const findings: Finding[] = [];
+  const recorded = await extractGraphQLMocks(HAR_PATH);
+  const queries = new Map(
+    (await extractGraphQLOperations(HAR_PATH)).map(({ operationName, query }) => [operationName, query])
+  );
+  const sources = await extractMockSources(HAR_PATH);
+
+  for (const [operationName, { metadata }] of files) {
+    const stale = (message: string, fix = "npm run mock:extract") =>
+      findings.push({ severity: "error", check: "Metadata", message: `${operationName}: ${message}`, fix });
+
+    const response = recorded.get(operationName);
+    if (response && generateSchemaHash(response) !== metadata.schemaHash) {
+      stale(`schemaHash ${metadata.schemaHash} doesn't match the HAR response (${generateSchemaHash(response)})`);
+    }
+    const query = queries.get(operationName);
+    if (query && metadata.query !== query) {
+      stale("query differs from the one recorded in the HAR");
+    }
+    if (metadata.query && metadata.persistedQueryHash && persistedQueryHash(metadata.query) !== metadata.persistedQueryHash) {
+      stale("persistedQueryHash is not the sha256 of the query");
+    }
+    const source = sources.get(operationName);
+    if (source && metadata.source && JSON.stringify(metadata.source) !== JSON.stringify(source)) {
+      stale(`source points at ${metadata.source.harFile} entry ${metadata.source.entryIndex}, recorded at entry ${source.entryIndex}`);
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Responses and recording dates that differ from the HAR, e.g. a hand-edited mock file
+ * Committed mocks must be reproducible by `npm run mock:extract`.
+ */
+async function checkData(files: Map<string, MockFile>): Promise<Finding[]> {
+  const findings: Finding[] = [];
+  const recorded = await extractGraphQLMocks(HAR_PATH);
+  const recordedVariants = await extractGraphQLMockVariants(HAR_PATH);
+  const dates = await extractRecordingDates(HAR_PATH);
+
+  for (const [operationName, file] of files) {
+    const stale = (message: string, fix = "Move the edit into a test override (gql.override), then npm run mock:extract") =>
+      findings.push({ severity: "error", check: "Data", message: `${operationName}: ${message}`, fix });
+
+    const response = recorded.get(operationName);
+    if (response === undefined) continue;
+    if (!isDeepStrictEqual(file.mock, response)) {
+      stale(`${operationName}Mock differs from the response recorded in the HAR`);
+    }
+
+    const variants = recordedVariants.get(operationName) ?? [];
+    for (const variant of variants) {
+      const current = file.variants?.find(entry => entry.variablesKey === variant.variablesKey);
+      if (!current) {
+        stale(`no variant for the recorded variables ${JSON.stringify(variant.variables)}`);
+      } else if (!isDeepStrictEqual(current.response, variant.response)) {
+        stale(`variant ${JSON.stringify(variant.variables)} differs from the response recorded in the HAR`);
+      }
+    }
+    for (const variant of file.variants ?? []) {
+      if (variants.some(entry => entry.variablesKey === variant.variablesKey)) continue;
+      stale(`variant ${JSON.stringify(variant.variables)} is not recorded in the HAR`);
+    }
+
+    const recordedAt = dates.get(operationName);
+    if (file.metadata.source && recordedAt && file.metadata.lastUpdated !== recordedAt) {
+      stale(`lastUpdated ${file.metadata.lastUpdated} is not the HAR recording date (${recordedAt})`, "npm run mock:extract");
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Print findings grouped by check, then the summary
+ */
+function printReport(findings: Finding[], operationCount: number) {
+  for (const check of Array.from(new Set(findings.map(finding => finding.check)))) {
+    console.log(`\n${check}`);
+    for (const finding of findings.filter(entry => entry.check === check)) {
+      console.log(`   ${finding.severity === "error" ? "❌" : "⚠️ "} ${finding.message}`);
+      if (finding.fix) console.log(`      → ${finding.fix}`);
+    }
+  }
+
+  const errors = findings.filter(finding => finding.severity === "error").length;
+  const warnings = findings.length - errors;
+
+  console.log("\n" + "─".repeat(80));
+  console.log("\n📊 DOCTOR SUMMARY\n");
+  console.log(`🗂️  Mock files: ${operationCount}`);
+  console.log(`❌ Errors:     ${errors}`);
+  console.log(`⚠️  Warnings:   ${warnings}\n`);
+
+  if (errors > 0) {
+    console.log("⚠️  The mocks are inconsistent - apply the fixes above and run npm run mock:doctor again\n");
+    process.exit(1);
+  }
+  console.log("✅ Mocks, HAR and registry are consistent\n");
+  process.exit(0);
+}
+
+async function runDoctor() {
+  console.log("🩺 Checking GraphQL mocks...\n");
+  console.log(`📁 HAR file: ${HAR_PATH}`);
+  console.log(`📁 Mocks:    ${MOCKS_DIR}\n`);
+
+  const findings: Finding[] = [];
+  const mockNames = listMockFiles(MOCKS_DIR);
+  const files = await loadMockFiles(mockNames, findings);
+  const harOperations = (await extractGraphQLOperations(HAR_PATH)).map(({ operationName }) => operationName);
+
+  findings.push(
+    ...await checkOrphans(mockNames, files, harOperations),
+    ...await checkTypeNames(files),
+    ...await checkRegistry(),
+    ...await checkEndpoints(await extractOperationEndpoints(HAR_PATH)),
+    ...await checkMetadata(files),
+    ...await checkData(files),
+  );
+
+  printReport(findings, mockNames.length);
+}
+
+runDoctor().catch(error => {
+  console.error("\n❌ Doctor failed:", error.message);
+  process.exit(1);
+});
@@ -1,7 +1,7 @@
 /**
  * Extract GraphQL mocks from HAR file
  * 
- * This script reads the HAR file and generates typed mock files
+ * This script reads the HAR file and writes a JSON mock file
  * for each GraphQL operation found, then auto-updates mock-registry.ts.
  */
 
@@ -25,7 +25,7 @@ async function extractMocks() {
   
   console.log(`\n✅ Extracted ${userOperations.length} operation(s):`);
   userOperations.forEach(operationName => {
-    console.log(`  - ${operationName} → ${operationName}.mock.ts`);
+    console.log(`  - ${operationName} → ${operationName}.mock.json`);
   });
   
   // Auto-update mock registry
@@ -33,7 +33,7 @@ async function extractMocks() {
   
   console.log("\n💡 Next steps:");
   console.log("   1. Run 'npm run mock:codegen' to regenerate types from schema");
-  console.log("   2. Manually add types to mock files if needed\n");
+  console.log("   2. Add the response type of new operations to <operation>.mock.ts (kept on re-extract)\n");
 }
 
 extractMocks()
@@ -13,7 +13,8 @@
 import { chromium } from "@playwright/test";
 import path from "path";
 import { readFile, writeFile, unlink } from "fs/promises";
-import { extractGraphQLOperations } from "../mocks/graphql/mock-extractor";
+import { extractGraphQLOperations, readHarGraphQLBody, recordingKey } from "../mocks/graphql/mock-extractor";
+import { getOperationName } from "../mocks/graphql/graphql-document";
 import { updateMockRegistry } from "./update-registry";
 
 const HAR_PATH = path.join(process.cwd(), "mocks", "graphql-operations.har");
@@ -153,61 +154,51 @@ async function mergeHarFiles() {
       }
     });
 
-    // Build operation name to entry map for new recordings
+    // Build a map of new recordings, keyed by operation name + variables
+    // so every recorded variables set (variant) of an operation survives the merge
     const newOpMap = new Map<string, any>();
     const newEntries = newHar.log.entries || [];
     
     newEntries.forEach((entry: any) => {
-      const postData = entry.request?.postData?.text;
-      if (!postData) return;
+      // POST bodies, GET queries and persisted queries (hash kept in extensions)
+      const body = readHarGraphQLBody(entry);
       
-      try {
-        const parsed = JSON.parse(postData);
-        const opName = parsed.operationName;
-        if (opName && opName !== "IntrospectionQuery") {
-          newOpMap.set(opName, entry);
-        }
-      } catch {
-        // Ignore
+      // Hash-only APQ attempts are followed by a retry that carries the query
+      if (!body?.query) return;
+      
+      const opName = getOperationName(body);
+      if (opName && opName !== "IntrospectionQuery") {
+        newOpMap.set(recordingKey(opName, body.variables), entry);
       }
     });
 
     // Merge logic:
-    // 1. Keep existing operations that weren't re-recorded
-    // 2. Replace operations that were re-recorded (schema updates)
-    // 3. Add new operations
+    // 1. Keep existing recordings that weren't re-recorded (other variables of the same operation included)
+    // 2. Replace recordings that were re-recorded with the same variables (schema updates)
+    // 3. Add new recordings
     const existingEntries = existingHar.log.entries || [];
     const finalEntries: any[] = [];
-    const processedOps = new Set<string>();
+    const processedKeys = new Set<string>();
 
     // Keep/Replace existing entries
     existingEntries.forEach((entry: any) => {
-      const postData = entry.request?.postData?.text;
-      if (!postData) {
-        finalEntries.push(entry);
-        return;
-      }
+      const body = readHarGraphQLBody(entry);
+      const opName = getOperationName(body);
+      const key = opName ? recordingKey(opName, body?.variables) : undefined;
       
-      try {
-        const parsed = JSON.parse(postData);
-        const opName = parsed.operationName;
-        
-        if (newOpMap.has(opName)) {
-          // Replace with updated version
-          finalEntries.push(newOpMap.get(opName));
-          processedOps.add(opName);
-        } else {
-          // Keep existing
-          finalEntries.push(entry);
-        }
-      } catch {
+      if (key && newOpMap.has(key)) {
+        // Replace with updated version, once per recording
+        if (!processedKeys.has(key)) finalEntries.push(newOpMap.get(key));
+        processedKeys.add(key);
+      } else {
+        // Keep existing
         finalEntries.push(entry);
       }
     });
 
-    // Add truly new operations (not replacements)
-    newOpMap.forEach((entry, opName) => {
-      if (!processedOps.has(opName)) {
+    // Add truly new recordings (not replacements)
+    newOpMap.forEach((entry, key) => {
+      if (!processedKeys.has(key)) {
         finalEntries.push(entry);
       }
     });
@@ -0,0 +1,59 @@
+/**
+ * List recorded GraphQL mocks past their maximum age
+ *
+ * Reads metadata.lastUpdated of every *.mock.json and checks it against the staleness
+ * policy (mocks/graphql/mock-staleness.ts, MOCK_MAX_AGE_DAYS / MOCK_STALE), printing
+ * the command that re-records each stale mock.
+ *
+ * Exits with 1 when mocks are stale and the policy action is "fail".
+ * Does NOT modify any files.
+ */
+
+import path from "path";
+import { describeMockFile, listMockFiles, mockFilePath, readMockFile } from "../mocks/graphql/mock-loader";
+import { findStaleMocks, formatStaleMock, rerecordCommand, stalenessPolicy } from "../mocks/graphql/mock-staleness";
+
+const MOCKS_DIR = path.join(process.cwd(), "mocks", "graphql");
+
+async function listStaleMocks() {
+  const policy = stalenessPolicy();
+  console.log("⏳ Checking the age of GraphQL mocks...\n");
+  console.log(`📁 Mocks:   ${MOCKS_DIR}`);
+  console.log(`📅 Max age: ${policy.maxAgeDays} days (action: ${policy.action})`);
+  for (const [operationName, days] of Object.entries(policy.operations)) {
+    console.log(`            ${operationName}: ${days} days`);
+  }
+
+  const entries = listMockFiles(MOCKS_DIR).map(operationName =>
+    describeMockFile(readMockFile(mockFilePath(MOCKS_DIR, operationName)))
+  );
+  // Listed whatever the action, so `MOCK_STALE=off npm run mock:stale` still shows them
+  const stale = findStaleMocks(entries, { ...policy, action: "warn" });
+  const handWritten = entries.filter(entry => !entry.source);
+
+  for (const mock of stale) {
+    console.log(`\n⚠️  ${formatStaleMock(mock)}`);
+    console.log(`   → ${rerecordCommand(mock)}`);
+  }
+
+  console.log("\n" + "─".repeat(80));
+  console.log("\n📊 STALENESS SUMMARY\n");
+  console.log(`✅ Fresh:        ${entries.length - stale.length - handWritten.length}`);
+  console.log(`⚠️  Stale:        ${stale.length}`);
+  console.log(`✍️  Hand-written: ${handWritten.length} (never stale)`);
+  console.log();
+
+  if (stale.length === 0) {
+    console.log("✅ No mock is older than its maximum age\n");
+    process.exit(0);
+  }
+
+  console.log("💡 Re-record every stale mock at once:");
+  console.log(`   $ npm run mock:update -- ${stale.map(mock => mock.entry.operationName).join(" ")} && npm run mock:extract\n`);
+  process.exit(policy.action === "fail" ? 1 : 0);
+}
+
+listStaleMocks().catch(error => {
+  console.error(`\n${error.message}`);
+  process.exit(1);
+});
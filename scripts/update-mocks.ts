@@ -2,24 +2,116 @@
  * Update GraphQL mocks - Re-record all existing operations
  * 
  * This script is fully automated and CI-friendly.
- * It re-records ALL existing operations to detect schema drift.
+ * It re-records ALL existing operations to detect schema drift, each
+ * recorded variables set with its own variables (so every variant is kept).
+ * Operations named on the command line are the only ones re-recorded, even when
+ * unchanged, e.g. stale mocks: npm run mock:update -- GetCountries
+ * (their HAR entries are replaced, every other recording is kept as is).
  * 
  * For adding NEW operations, use: npm run mock:record:interactive
  */
 
 import { chromium } from "@playwright/test";
 import path from "path";
+import { readFile, writeFile, unlink } from "fs/promises";
 import {
   extractGraphQLOperations,
+  extractGraphQLRecordings,
+  readHarGraphQLBody,
   saveGraphQLMocksToFiles,
   hasMockForOperation,
-  hasSchemaChanged
+  hasSchemaChanged,
+  GraphQLRecording
 } from "../mocks/graphql/mock-extractor";
+import { getOperationName } from "../mocks/graphql/graphql-document";
 
 const HAR_PATH = path.join(process.cwd(), "mocks", "graphql-operations.har");
 const MOCKS_DIR = path.join(process.cwd(), "mocks", "graphql");
 
+/**
+ * Sends each recording again, with its own variables, and records the responses to a HAR file
+ */
+async function recordRequests(harPath: string, recordings: GraphQLRecording[]) {
+  const browser = await chromium.launch();
+  const context = await browser.newContext({
+    recordHar: {
+      path: harPath,
+      content: "embed",
+    },
+  });
+
+  const page = await context.newPage();
+  await page.goto("about:blank");
+  await page.waitForTimeout(500);
+
+  for (const { operationName, query, variables, persistedQueryHash } of recordings) {
+    const label = Object.keys(variables).length > 0 ? `${operationName} ${JSON.stringify(variables)}` : operationName;
+    console.log(`📝 Re-recording: ${label}`);
+    await page.evaluate(
+      async ({ operationName, query, variables, persistedQueryHash }) => {
+        // Keep the APQ hash in the new recording if the client sent one
+        const extensions = persistedQueryHash
+          ? { persistedQuery: { version: 1, sha256Hash: persistedQueryHash } }
+          : undefined;
+        await fetch("https://countries.trevorblades.com/", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ operationName, query, variables, extensions })
+        });
+      },
+      { operationName, query, variables, persistedQueryHash }
+    );
+    await page.waitForTimeout(1000);
+    console.log(`✓ Re-recorded ${label}`);
+  }
+
+  await context.close();
+  await browser.close();
+}
+
+/**
+ * Re-records only the named operations (every recorded variables set of each)
+ * and swaps their HAR entries for the new ones
+ */
+async function rerecordOperations(operationNames: string[]) {
+  console.log(`🔁 Re-recording: ${operationNames.join(", ")}\n`);
+
+  const requested = new Set(operationNames);
+  const recordings = (await extractGraphQLRecordings(HAR_PATH))
+    .filter(recording => requested.has(recording.operationName));
+
+  const newHarPath = HAR_PATH + ".new";
+  await recordRequests(newHarPath, recordings);
+
+  const har = JSON.parse(await readFile(HAR_PATH, "utf-8"));
+  const newHar = JSON.parse(await readFile(newHarPath, "utf-8"));
+  const kept = har.log.entries.filter((entry: any) => {
+    const operationName = getOperationName(readHarGraphQLBody(entry));
+    return !operationName || !requested.has(operationName);
+  });
+  har.log.entries = [...kept, ...newHar.log.entries];
+
+  await writeFile(HAR_PATH, JSON.stringify(har, null, 2));
+  await unlink(newHarPath);
+
+  console.log(`\n✅ Updated HAR file: ${HAR_PATH}`);
+  console.log(`   Re-recorded ${recordings.length} request(s) of ${operationNames.length} operation(s), kept ${kept.length} other entr${kept.length === 1 ? "y" : "ies"}`);
+}
+
 async function updateMocks() {
+  const requestedOperations = process.argv.slice(2);
+  if (requestedOperations.length > 0) {
+    const recorded = await extractGraphQLOperations(HAR_PATH);
+    const unknown = requestedOperations.filter(name => !recorded.some(op => op.operationName === name));
+    if (unknown.length > 0) {
+      throw new Error(`Not recorded in the HAR: ${unknown.join(", ")} (add them with npm run mock:record:interactive)`);
+    }
+
+    await rerecordOperations(requestedOperations);
+    printNextSteps();
+    return;
+  }
+
   console.log("🔍 Checking for missing or changed operations...\n");
 
   // Check for missing operations or schema changes
@@ -58,43 +150,19 @@ async function updateMocks() {
 
   console.log("\n📝 Re-recording all operations to preserve HAR integrity...\n");
 
-  // Extract existing operations from HAR to preserve them
-  console.log(`Found ${userOperations.length} existing operation(s) to preserve`);
-  
-  const browser = await chromium.launch();
-  const context = await browser.newContext({
-    recordHar: {
-      path: HAR_PATH,
-      content: "embed",
-    },
-  });
+  // Extract existing recordings (operation + variables) from HAR to preserve them
+  const recordings = await extractGraphQLRecordings(HAR_PATH);
+  console.log(`Found ${recordings.length} existing recording(s) of ${userOperations.length} operation(s) to preserve`);
 
-  const page = await context.newPage();
-  await page.goto("about:blank");
-  await page.waitForTimeout(500);
-
-  // Re-record all existing operations
-  for (const { operationName, query } of userOperations) {
-    console.log(`📝 Re-recording: ${operationName}`);
-    await page.evaluate(
-      async ({ operationName, query }) => {
-        await fetch("https://countries.trevorblades.com/", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ operationName, query })
-        });
-      },
-      { operationName, query }
-    );
-    await page.waitForTimeout(1000);
-    console.log(`✓ Re-recorded ${operationName}`);
-  }
-
-  await context.close();
-  await browser.close();
+  // Re-record all existing recordings, each with the variables it was recorded with
+  await recordRequests(HAR_PATH, recordings);
 
   console.log(`\n✅ Updated HAR file: ${HAR_PATH}`);
-  console.log(`   Re-recorded ${userOperations.length} operation(s)`);
+  console.log(`   Re-recorded ${recordings.length} request(s) of ${userOperations.length} operation(s)`);
+  printNextSteps();
+}
+
+function printNextSteps() {
   console.log("\n💡 Next steps:");
   console.log("   1. Run: npm run mock:extract");
   console.log("   2. Run: npm test");
@@ -1,97 +1,260 @@
 /**
- * Auto-update mock-registry.ts
+ * Auto-update mock-registry.ts and mock-manifest.json
  * 
- * Scans for all *.mock.ts files and automatically updates mock-registry.ts
- * with imports and GRAPHQL_MOCKS entries.
+ * Scans for all *.mock.json files and automatically updates mock-registry.ts
+ * with the operation list, response types and GRAPHQL_MOCKS entries.
+ * Payloads are not imported: the registry reads each file on first use.
+ * mock-manifest.json collects the provenance of every mock (schema hash, last update,
+ * HAR entry, endpoint, variables key and size) for listMocks() and reports.
  */
 
-import { readdir, readFile, writeFile } from "fs/promises";
+import { access, readFile, writeFile } from "fs/promises";
 import path from "path";
+import {
+  describeMockFile,
+  formatMockManifest,
+  listMockFiles,
+  mockFilePath,
+  mockManifestPath,
+  readMockFile,
+} from "../mocks/graphql/mock-loader";
 
 const MOCKS_DIR = path.join(process.cwd(), "mocks", "graphql");
-const REGISTRY_PATH = path.join(MOCKS_DIR, "mock-registry.ts");
+export const REGISTRY_PATH = path.join(MOCKS_DIR, "mock-registry.ts");
+export const MANIFEST_PATH = mockManifestPath(MOCKS_DIR);
 
-export async function updateMockRegistry(): Promise<void> {
-  console.log("\n🔄 Auto-updating mock-registry.ts...");
+/**
+ * Quotes operation names for the generated lists
+ */
+function nameList(names: string[]): string {
+  return names.map(name => `\n  "${name}",`).join("") + "\n";
+}
 
-  // Find all *.mock.ts files
-  const files = await readdir(MOCKS_DIR);
-  const mockFiles = files
-    .filter(f => f.endsWith(".mock.ts") && f !== "mock-registry.ts")
-    .sort();
+/**
+ * Reads the type-only <operation>.mock.ts of an operation ("" when it has none)
+ */
+export async function readMockTypes(operationName: string): Promise<string> {
+  const typesPath = path.join(MOCKS_DIR, `${operationName}.mock.ts`);
+  return access(typesPath).then(() => readFile(typesPath, "utf-8"), () => "");
+}
 
-  if (mockFiles.length === 0) {
-    console.log("⚠️  No mock files found");
-    return;
-  }
+/**
+ * Checks if a type module declares the operation's `<operationName>Response` type
+ */
+export function hasResponseType(types: string, operationName: string): boolean {
+  return new RegExp(`export (interface|type) ${operationName}Response\\b`).test(types);
+}
 
-  // Generate imports
-  const imports: string[] = [];
-  const mapEntries: string[] = [];
+/**
+ * Builds the content of mock-registry.ts from the *.mock.json files (null when there are none)
+ * @throws Error when a mock file is malformed
+ */
+export async function generateMockRegistry(): Promise<string | null> {
+  // Find all *.mock.json data files
+  const mockFiles = listMockFiles(MOCKS_DIR);
+
+  if (mockFiles.length === 0) return null;
 
-  for (const file of mockFiles) {
-    const baseName = file.replace(".mock.ts", "");
-    const mockVarName = `${baseName}Mock`;
+  const operationNames: string[] = [];
+  const variantOperations: string[] = [];
+  const subscriptionOperations: string[] = [];
+  const typeImports: string[] = [];
+  const operationTypes: string[] = [];
+  const payloadChecks: string[] = [];
+
+  for (const baseName of mockFiles) {
+    const responseTypeName = `${baseName}Response`;
+    const payloadType = `(typeof import("./${path.basename(mockFilePath(MOCKS_DIR, baseName))}"))`;
+    operationNames.push(baseName);
     
-    imports.push(`import { ${mockVarName} } from "./${file.replace(".ts", "")}";`);
-    mapEntries.push(`  ["${baseName}", ${mockVarName}],`);
+    // Fails with the file's problems when it is malformed
+    const file = readMockFile(mockFilePath(MOCKS_DIR, baseName));
+    // Variants are only written for operations recorded with variables
+    const hasVariants = file.variants !== undefined;
+    // Subscription mocks script their event stream
+    const hasEvents = file.events !== undefined;
+    // Response types live in the type-only <operation>.mock.ts, which new operations may not have yet
+    const typed = hasResponseType(await readMockTypes(baseName), baseName);
+
+    operationTypes.push(`  ${baseName}: ${typed ? responseTypeName : "any"};`);
+    if (typed) {
+      typeImports.push(`import type { ${responseTypeName} } from "./${baseName}.mock";`);
+      payloadChecks.push(`  CheckedPayload<${payloadType}["${baseName}Mock"], ${responseTypeName}>,`);
+      if (hasVariants) {
+        payloadChecks.push(`  CheckedPayload<${payloadType}["${baseName}Variants"][number]["response"], ${responseTypeName}>,`);
+      }
+    }
+    if (hasVariants) {
+      variantOperations.push(baseName);
+    }
+    if (hasEvents) {
+      subscriptionOperations.push(baseName);
+    }
   }
 
   // Generate new registry content
-  const registryContent = `/**
+  return `/**
  * GraphQL Mock Registry
  * 
  * Centralized registry of all GraphQL operation mocks.
  * Import this in test files instead of managing individual imports.
+ * Payloads live in *.mock.json files, read on first use and cached per worker.
  * 
  * ⚠️  AUTO-GENERATED - Do not edit manually!
  * Run: npm run mock:update-registry to regenerate
  */
 
-${imports.join("\n")}
+import { createMockRegistry } from "./mock-matcher";
+import { CheckedPayload, MockManifestEntry, MockMetadata, MockRegistry, SubscriptionEvent } from "./mock-types";
+import { lazyMockMap, readMockManifest } from "./mock-loader";
+${typeImports.join("\n")}
+
+/**
+ * Response type of every operation in the registry
+ * Key: operationName, Value: the response type declared in its *.mock.ts
+ */
+export interface GraphQLOperations {
+${operationTypes.join("\n")}
+}
+
+/**
+ * Name of an operation in the registry; a typo is a compile error
+ */
+export type OperationName = keyof GraphQLOperations;
+
+/**
+ * JSON payloads checked against their response types (compile time only, nothing is loaded)
+ */
+type CheckedPayloads = [
+${payloadChecks.join("\n")}
+];
+
+/**
+ * Operations with a *.mock.json file in this directory
+ */
+const OPERATIONS = [${nameList(operationNames)}];
 
 /**
  * Map of GraphQL operation names to their mock responses
  * Key: operationName from GraphQL request
  * Value: Mock response object
  */
-export const GRAPHQL_MOCKS = new Map<string, any>([
-${mapEntries.join("\n")}
-]);
+export const GRAPHQL_MOCKS = lazyMockMap(__dirname, OPERATIONS, file => file.mock);
+
+/**
+ * Map of GraphQL operation names to their variable-specific responses
+ * Key: operationName from GraphQL request
+ * Value: Variants keyed by a stable hash of the variables
+ */
+export const GRAPHQL_MOCK_VARIANTS = lazyMockMap(__dirname, [${nameList(variantOperations)}], file => file.variants ?? []);
+
+/**
+ * Map of GraphQL operation names to their recording metadata
+ * (schema hash, last update, query and persisted query hash)
+ */
+export const GRAPHQL_MOCK_METADATA = lazyMockMap(__dirname, OPERATIONS, file => file.metadata);
+
+/**
+ * Map of subscription operation names to their scripted event streams
+ * Served over WebSocket (graphql-ws / subscriptions-transport-ws)
+ */
+export const GRAPHQL_SUBSCRIPTION_EVENTS = lazyMockMap(__dirname, [${nameList(subscriptionOperations)}], file => file.events ?? []);
+
+/**
+ * Map of GraphQL operation names to their mock-manifest.json entry
+ * (schema hash, last update, HAR entry, endpoint, variables key and size)
+ */
+export const GRAPHQL_MOCK_MANIFEST = readMockManifest(__dirname);
+
+/**
+ * The registry of the recorded endpoint, for setupGraphQLMocks endpoint configs
+ */
+export const mockRegistry: MockRegistry = createMockRegistry({
+  mocks: GRAPHQL_MOCKS,
+  variants: GRAPHQL_MOCK_VARIANTS,
+  metadata: GRAPHQL_MOCK_METADATA,
+  manifest: GRAPHQL_MOCK_MANIFEST,
+  subscriptionEvents: GRAPHQL_SUBSCRIPTION_EVENTS,
+});
 
 /**
  * Helper to check if a mock exists for an operation
  */
-export function hasMock(operationName: string): boolean {
-  return GRAPHQL_MOCKS.has(operationName);
+export function hasMock(operationName: string): operationName is OperationName {
+  return mockRegistry.hasMock(operationName);
+}
+
+/**
+ * Helper to get a mock for an operation, typed with the operation's response
+ * Picks the exact variables match, then a partial match, then the default
+ */
+export function getMock<Name extends OperationName>(
+  operationName: Name,
+  variables?: Record<string, unknown> | null
+): GraphQLOperations[Name] {
+  return mockRegistry.getMock(operationName, variables);
+}
+
+/**
+ * Helper to get the scripted events of a subscription (undefined when it has none)
+ */
+export function getSubscriptionEvents(operationName: string): SubscriptionEvent[] | undefined {
+  return mockRegistry.getSubscriptionEvents(operationName);
 }
 
 /**
- * Helper to get a mock for an operation
+ * Helper to find the operation recorded with an automatic persisted query hash
  */
-export function getMock(operationName: string): any {
-  return GRAPHQL_MOCKS.get(operationName);
+export function findPersistedQuery(sha256Hash: string): MockMetadata | undefined {
+  return mockRegistry.findPersistedQuery(sha256Hash);
 }
 
 /**
- * Helper to list all available mock operations
+ * Helper to list all available mock operations with their provenance
  */
-export function listMocks(): string[] {
-  return Array.from(GRAPHQL_MOCKS.keys());
+export function listMocks(): MockManifestEntry[] {
+  return mockRegistry.listMocks();
 }
 `;
 
-  // Write to file
+}
+
+/**
+ * Builds the content of mock-manifest.json from the *.mock.json files (null when there are none)
+ * @throws Error when a mock file is malformed
+ */
+export async function generateMockManifest(): Promise<string | null> {
+  const mockFiles = listMockFiles(MOCKS_DIR);
+  if (mockFiles.length === 0) return null;
+
+  return formatMockManifest(mockFiles.map(baseName => describeMockFile(readMockFile(mockFilePath(MOCKS_DIR, baseName)))));
+}
+
+export async function updateMockRegistry(): Promise<void> {
+  console.log("\n🔄 Auto-updating mock-registry.ts and mock-manifest.json...");
+
+  const registryContent = await generateMockRegistry();
+  const manifestContent = await generateMockManifest();
+  if (registryContent === null || manifestContent === null) {
+    console.log("⚠️  No mock files found");
+    return;
+  }
+
+  // Write the manifest first: the registry reads it when imported
+  await writeFile(MANIFEST_PATH, manifestContent);
   await writeFile(REGISTRY_PATH, registryContent);
 
-  console.log(`✅ Updated mock-registry.ts with ${mockFiles.length} operation(s):`);
-  mockFiles.forEach(f => {
-    const opName = f.replace(".mock.ts", "");
+  const mockFiles = listMockFiles(MOCKS_DIR);
+  console.log(`✅ Updated mock-registry.ts and mock-manifest.json with ${mockFiles.length} operation(s):`);
+  mockFiles.forEach(opName => {
     console.log(`   - ${opName}`);
   });
 }
 
 // Run standalone if executed directly
 if (require.main === module) {
-  updateMockRegistry().catch(console.error);
+  updateMockRegistry().catch(error => {
+    console.error(error.message);
+    process.exit(1);
+  });
 }
@@ -8,11 +8,13 @@
  * Does NOT modify any files - read-only validation.
  */
 
-import { readFile } from "fs/promises";
 import path from "path";
-import { extractGraphQLOperations } from "../mocks/graphql/mock-extractor";
+import { GraphQLRecording, extractGraphQLRecordings } from "../mocks/graphql/mock-extractor";
+import { hasMockFile, mockFilePath, readMockFile } from "../mocks/graphql/mock-loader";
+import { resolveMock } from "../mocks/graphql/mock-matcher";
 
 const HAR_PATH = path.join(process.cwd(), "mocks", "graphql-operations.har");
+const MOCKS_DIR = path.join(process.cwd(), "mocks", "graphql");
 const GRAPHQL_ENDPOINT = "https://countries.trevorblades.com/";
 
 interface ValidationResult {
@@ -101,13 +103,14 @@ function compareSchemas(mockData: any, liveData: any): {
  */
 async function queryLiveServer(
   operationName: string,
-  query: string
+  query: string,
+  variables: Record<string, unknown>
 ): Promise<{ data?: any; errors?: any[] }> {
   try {
     const response = await fetch(GRAPHQL_ENDPOINT, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ operationName, query })
+      body: JSON.stringify({ operationName, query, variables })
     });
 
     if (!response.ok) {
@@ -127,66 +130,20 @@ async function queryLiveServer(
 }
 
 /**
- * Get response data from existing mock file
+ * Get the response data the mock file serves for a set of variables
+ * (the matching variant, else the default)
  */
-async function getMockData(operationName: string): Promise<any | null> {
-  try {
-    const mockPath = path.join(
-      process.cwd(),
-      "mocks",
-      "graphql",
-      `${operationName}.mock.ts`
-    );
-    
-    // Read and parse the file to extract the data
-    const content = await readFile(mockPath, "utf-8");
-    
-    // Find the start of the export object
-    const exportStart = content.indexOf("= {");
-    if (exportStart === -1) return null;
-    
-    // Extract from "= {" onwards and find matching braces
-    const startPos = exportStart + 2;
-    let braceCount = 0;
-    let endPos = startPos;
-    let inString = false;
-    let escapeNext = false;
-    
-    for (let i = startPos; i < content.length; i++) {
-      const char = content[i];
-      
-      if (escapeNext) {
-        escapeNext = false;
-        continue;
-      }
-      
-      if (char === '\\') {
-        escapeNext = true;
-        continue;
-      }
-      
-      if (char === '"') {
-        inString = !inString;
-        continue;
-      }
-      
-      if (!inString) {
-        if (char === '{') braceCount++;
-        if (char === '}') braceCount--;
-        
-        if (braceCount === 0 && char === '}') {
-          endPos = i + 1;
-          break;
-        }
-      }
-    }
-    
-    const jsonStr = content.substring(startPos, endPos);
-    const mockObject = JSON.parse(jsonStr);
-    return mockObject.data;
-  } catch (error) {
-    return null;
-  }
+async function getMockData(operationName: string, variables: Record<string, unknown>): Promise<any | null> {
+  if (!hasMockFile(MOCKS_DIR, operationName)) return null;
+  const file = readMockFile(mockFilePath(MOCKS_DIR, operationName));
+  return resolveMock(file.mock, file.variants, variables)?.data ?? null;
+}
+
+/**
+ * Names a recording in the report, with its variables when it has any
+ */
+function describeRecording({ operationName, variables }: GraphQLRecording): string {
+  return Object.keys(variables).length > 0 ? `${operationName} ${JSON.stringify(variables)}` : operationName;
 }
 
 /**
@@ -197,29 +154,49 @@ async function validateMocks(): Promise<ValidationResult[]> {
   console.log(`📁 HAR file: ${HAR_PATH}`);
   console.log(`🌐 GraphQL endpoint: ${GRAPHQL_ENDPOINT}\n`);
 
-  // Extract operations from HAR
-  const operations = await extractGraphQLOperations(HAR_PATH);
+  // Extract recordings from HAR: every operation with each variables set it was recorded with
+  const recordings = await extractGraphQLRecordings(HAR_PATH);
   
   // Filter out IntrospectionQuery
-  const userOperations = operations.filter(
-    op => op.operationName !== "IntrospectionQuery"
+  const userRecordings = recordings.filter(
+    recording => recording.operationName !== "IntrospectionQuery"
   );
 
-  console.log(`Found ${userOperations.length} operation(s) to validate\n`);
+  console.log(`Found ${userRecordings.length} recording(s) to validate\n`);
   console.log("─".repeat(80));
 
   const results: ValidationResult[] = [];
 
-  for (const { operationName, query } of userOperations) {
-    console.log(`\n🔎 Validating: ${operationName}`);
+  for (const recording of userRecordings) {
+    const { operationType, query, variables } = recording;
+    const operationName = describeRecording(recording);
+    console.log(`\n🔎 Validating: ${operationName} (${operationType})`);
+
+    // Subscriptions can't be executed with a single HTTP request
+    if (operationType === "subscription") {
+      results.push({
+        operationName,
+        status: "✅ OK",
+        message: "Subscription skipped - not validated over HTTP"
+      });
+      console.log(`   ⏭️  Skipped subscription`);
+      continue;
+    }
 
     // Get mock data
-    const mockData = await getMockData(operationName);
+    let mockData: any;
+    try {
+      mockData = await getMockData(recording.operationName, variables);
+    } catch (error: any) {
+      results.push({ operationName, status: "❌ ERROR", message: error.message });
+      console.log(`   ${error.message}`);
+      continue;
+    }
     if (!mockData) {
       results.push({
         operationName,
         status: "⚠️ DRIFT",
-        message: "Mock file not found or couldn't parse data"
+        message: "Mock file not found or has no data"
       });
       console.log(`   ⚠️  No mock file found`);
       continue;
@@ -227,7 +204,7 @@ async function validateMocks(): Promise<ValidationResult[]> {
 
     // Query live server
     console.log(`   → Querying live server...`);
-    const liveResult = await queryLiveServer(operationName, query);
+    const liveResult = await queryLiveServer(recording.operationName, query, variables);
 
     if (liveResult.errors) {
       // Operation returned errors
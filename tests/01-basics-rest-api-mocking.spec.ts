@@ -1,6 +1,5 @@
-import { test, expect } from "@playwright/test";
+import { test, expect } from "./utils/mock-fixtures";
 import { setLocationAndFetch } from "./utils/fgraph-ui-actions";
-import { useMocks } from "./utils/mock-toggle";
 
 const APP_URL = "https://fgraph.vercel.app/";
 const API_PATTERN = "**://api.open-meteo.com/v1/forecast**";
@@ -58,27 +57,22 @@ const mockedForecastResponse = {
 };
 
 test.describe("Weather UI - REST mocking (Open-Meteo)", () => {
-  test("route.fulfill(): returns mocked forecast and UI shows mocked temp", async ({ page }) => {
-    let interceptedRequestUrl = "";
+  test("route.fulfill(): returns mocked forecast and UI shows mocked temp", async ({ page, restMock }) => {
+    await restMock.route(API_PATTERN, async (route) => {
+      if (route.request().method() !== "GET") return route.continue();
 
-    if (useMocks()) {
-      await page.route(API_PATTERN, async (route) => {
-        if (route.request().method() !== "GET") return route.continue();
-
-        interceptedRequestUrl = route.request().url();
-        await route.fulfill(mockedForecastResponse);
-      });
-    }
+      await route.fulfill(mockedForecastResponse);
+    });
 
     await setLocationAndFetch(page);
 
     // Assert route was hit
-    if (useMocks()) {
-      await expect.poll(() => interceptedRequestUrl, { timeout: 10_000 }).toContain("forecast");
+    if (restMock.enabled) {
+      await expect(restMock.calls.url("forecast")).toHaveBeenCalledTimes(1, { timeout: 10_000 });
     }
 
     // Assert UI shows mocked temp
-    if (useMocks()) {
+    if (restMock.enabled) {
       await expect(page.getByText("20.5", { exact: false })).toBeVisible({ timeout: 10_000 });
       console.log("Mocking mode; asserted mocked temperature 20.5°C.");
     } else {
@@ -89,23 +83,47 @@ test.describe("Weather UI - REST mocking (Open-Meteo)", () => {
   });
 
 
-  test("route.abort(): simulates API failure and UI shows error message", async ({ page }) => {
-    let intercepted = false;
+  test("route.fulfill() with latency: mocked forecast arrives after a seeded delay", async ({ page, restMock }) => {
+    let requestedAt = 0;
+    let fulfilledAt = 0;
 
-    if (useMocks()) {
-      await page.route(API_PATTERN, async (route) => {
-        if (route.request().method() !== "GET") return route.continue();
-
-        intercepted = true;
-        await route.abort("failed");
+    if (restMock.enabled) {
+      page.on("request", (request) => {
+        if (request.url().includes("api.open-meteo.com/v1/forecast")) requestedAt = Date.now();
       });
     }
 
+    await restMock.route(API_PATTERN, async (route) => {
+      if (route.request().method() !== "GET") return route.continue();
+
+      fulfilledAt = Date.now();
+      await route.fulfill(mockedForecastResponse);
+    }, { latency: { min: 500, max: 1000, seed: "forecast" } });
+
     await setLocationAndFetch(page);
 
-    if (useMocks()) {
+    if (restMock.enabled) {
+      await expect(page.getByText("20.5", { exact: false })).toBeVisible({ timeout: 10_000 });
+      expect(fulfilledAt - requestedAt).toBeGreaterThanOrEqual(500);
+      console.log(`Mocking mode; mocked forecast delayed by ${fulfilledAt - requestedAt}ms.`);
+    } else {
+      console.log("Real network mode; latency not applied.");
+    }
+  });
+
+
+  test("route.abort(): simulates API failure and UI shows error message", async ({ page, restMock }) => {
+    await restMock.route(API_PATTERN, async (route) => {
+      if (route.request().method() !== "GET") return route.continue();
+
+      await route.abort("failed");
+    });
+
+    await setLocationAndFetch(page);
+
+    if (restMock.enabled) {
       // Assert route was hit (failure simulated)
-      await expect.poll(() => intercepted, { timeout: 10_000 }).toBe(true);
+      await expect(restMock.calls.url("forecast")).toHaveBeenCalledTimes(1, { timeout: 10_000 });
 
       // Assert UI shows error message (from the DOM you shared)
       await expect(page.getByRole("heading", { name: /failed to fetch data/i })).toBeVisible({
@@ -122,22 +140,17 @@ test.describe("Weather UI - REST mocking (Open-Meteo)", () => {
   });
 
 
-  test("route.continue(): allows real request to pass through", async ({ page }) => {
-    let continued = false;
-
-    if (useMocks()) {
-      await page.route(API_PATTERN, async (route) => {
-        if (route.request().method() !== "GET") return route.continue();
+  test("route.continue(): allows real request to pass through", async ({ page, restMock }) => {
+    await restMock.route(API_PATTERN, async (route) => {
+      if (route.request().method() !== "GET") return route.continue();
 
-        continued = true;
-        await route.continue(); // passthrough (no mocking)
-      });
-    }
+      await route.continue(); // passthrough (no mocking)
+    });
 
     await setLocationAndFetch(page);
 
-    if (useMocks()) {
-      await expect.poll(() => continued, { timeout: 10_000 }).toBe(true);
+    if (restMock.enabled) {
+      await expect(restMock.calls.url("forecast")).toHaveBeenCalledTimes(1, { timeout: 10_000 });
 
       // Since this is real network, we just assert "some number-like temp" appears.
       // Keep it flexible: any digit with optional decimal.
@@ -149,32 +162,30 @@ test.describe("Weather UI - REST mocking (Open-Meteo)", () => {
   });
 
 
-  test("route.continue(): modify headers before passthrough", async ({ page }) => {
+  test("route.continue(): modify headers before passthrough", async ({ page, restMock }) => {
     let seenHeader = false;
 
-    if (useMocks()) {
-      await page.route(API_PATTERN, async (route) => {
-        const req = route.request();
-        if (req.method() !== "GET") return route.continue();
+    await restMock.route(API_PATTERN, async (route) => {
+      const req = route.request();
+      if (req.method() !== "GET") return route.continue();
 
-        // Add/override headers
-        const headers = {
-          ...req.headers(),
-          "x-e2e-run": "true",
-          "x-e2e-suite": "playwright-mocking-lab",
-        };
+      // Add/override headers
+      const headers = {
+        ...req.headers(),
+        "x-e2e-run": "true",
+        "x-e2e-suite": "playwright-mocking-lab",
+      };
 
-        // Verify locally we set them (we can't easily prove server received it without owning server,
-        // but this shows you how to mutate and pass through).
-        seenHeader = headers["x-e2e-run"] === "true";
+      // Verify locally we set them (we can't easily prove server received it without owning server,
+      // but this shows you how to mutate and pass through).
+      seenHeader = headers["x-e2e-run"] === "true";
 
-        await route.continue({ headers });
-      });
-    }
+      await route.continue({ headers });
+    });
 
     await setLocationAndFetch(page);
 
-    if (useMocks()) {
+    if (restMock.enabled) {
       await expect.poll(() => seenHeader, { timeout: 10_000 }).toBe(true);
 
       // Keep assertion light since this is a real network call
@@ -189,40 +200,38 @@ test.describe("Weather UI - REST mocking (Open-Meteo)", () => {
 
 
   
-  test("route.continue(): modify POST payload before sending", async ({ page }) => {
+  test("route.continue(): modify POST payload before sending", async ({ page, restMock }) => {
     let seenOriginal = "";
     let sentModified = "";
 
     
-    if (useMocks()) {
-      // Match the absolute URL we will POST to
-      await page.route("**/post-endpoint", async (route) => {
-        const req = route.request();
-        seenOriginal = req.postData() || "";
-        console.log("Original POST body:", seenOriginal);
-
-        const modifiedBody = JSON.stringify(
-          { 
-            name: "Selva", 
-            from: "modified", 
-              data: {
-                locationId: "-3oIxu_7_JisOsAt7y5l4MdCm-9opsi5batQa5kXxzo_restaurant",
-                tableId:  "605049b2-2fa5-43a4-a5d1-8bb1effc1be2"
-              }
-          }
-        );
-        sentModified = modifiedBody;
-        console.log("Modified POST body:", modifiedBody);
-
-        await route.continue({
-          postData: modifiedBody,
-          headers: {
-            ...req.headers(),
-            "content-type": "application/json",
-          },
-        });
+    // Match the absolute URL we will POST to
+    await restMock.route("**/post-endpoint", async (route) => {
+      const req = route.request();
+      seenOriginal = req.postData() || "";
+      console.log("Original POST body:", seenOriginal);
+
+      const modifiedBody = JSON.stringify(
+        { 
+          name: "Selva", 
+          from: "modified", 
+            data: {
+              locationId: "-3oIxu_7_JisOsAt7y5l4MdCm-9opsi5batQa5kXxzo_restaurant",
+              tableId:  "605049b2-2fa5-43a4-a5d1-8bb1effc1be2"
+            }
+        }
+      );
+      sentModified = modifiedBody;
+      console.log("Modified POST body:", modifiedBody);
+
+      await route.continue({
+        postData: modifiedBody,
+        headers: {
+          ...req.headers(),
+          "content-type": "application/json",
+        },
       });
-    }
+    });
 
     // Give the page a real origin
     await page.goto("https://example.com");
@@ -236,7 +245,7 @@ test.describe("Weather UI - REST mocking (Open-Meteo)", () => {
       }).catch(() => {});
     });
 
-    if (useMocks()) {
+    if (restMock.enabled) {
       expect(sentModified).toContain("modified");
       console.log("Mocking mode; POST body modified before sending.");
     } else {
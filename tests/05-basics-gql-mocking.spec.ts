@@ -1,12 +1,11 @@
-import { test, expect } from "@playwright/test";
-import { useMocks } from "./utils/mock-toggle";
+import { test, expect } from "./utils/mock-fixtures";
 
 const isMac = process.platform === "darwin";
 
 // INTENTIONALLY SKIPPED TEST REFERENCE FOR CI RUN
-test.skip("GraphQL UI: run query and mock response", async ({ page }) => {
+test.skip("GraphQL UI: run query and mock response", async ({ page, mockMode }) => {
   // Intercept the actual endpoint used by the site (root POST)
-  if (useMocks()) {
+  if (mockMode === "mocked") {
     await page.route("**://countries.trevorblades.com/**", async (route) => {
         const req = route.request();
         if (req.method() !== "POST") return route.continue();
@@ -52,7 +51,7 @@ test.skip("GraphQL UI: run query and mock response", async ({ page }) => {
     await page.locator("button.graphiql-execute-button").click();
 
 
-  if (useMocks()) {
+  if (mockMode === "mocked") {
     // Assert mocked data appears in response panel
     await expect(page.getByText("India")).toBeVisible({ timeout: 10_000 });
     await expect(page.getByText("United Kingdom")).toBeVisible({ timeout: 10_000 });
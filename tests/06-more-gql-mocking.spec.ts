@@ -1,12 +1,14 @@
-import { test, expect, Page } from "@playwright/test";
-import { useMocks } from "./utils/mock-toggle";
+import type { Page } from "@playwright/test";
+import { test, expect } from "./utils/mock-fixtures";
+import { getMock } from "../mocks/graphql/mock-registry";
+import { errorResponse, graphqlError } from "../mocks/graphql/mock-errors";
 
 const GRAPHQL_URL = "**://countries.trevorblades.com/**";
 const isMac = process.platform === "darwin";
 
 test.describe("GraphQL UI – Mocking with Playwright", () => {
-  test.beforeEach(async ({ page }) => {
-    if (useMocks()) {
+  test.beforeEach(async ({ page, mockMode }) => {
+    if (mockMode === "mocked") {
         await page.route(GRAPHQL_URL, async (route) => {
         const req = route.request();
         if (req.method() !== "POST") return route.continue();
@@ -29,29 +31,13 @@ test.describe("GraphQL UI – Mocking with Playwright", () => {
             });
         }
 
-        // 2️⃣ Variable-based mock
+        // 2️⃣ Variable-based mock (registry picks the variant matching body.variables)
         if (body?.operationName === "CountryByCode") {
-            const code = body?.variables?.code;
-
-            if (code === "IN") {
-            return route.fulfill({
-                status: 200,
-                contentType: "application/json",
-                body: JSON.stringify({
-                data: { country: { code: "IN", name: "India" } },
-                }),
-            });
-            }
-
-            if (code === "GB") {
             return route.fulfill({
-                status: 200,
-                contentType: "application/json",
-                body: JSON.stringify({
-                data: { country: { code: "GB", name: "United Kingdom" } },
-                }),
+            status: 200,
+            contentType: "application/json",
+            body: JSON.stringify(getMock("CountryByCode", body?.variables)),
             });
-            }
         }
 
         // 3️⃣ GraphQL error response
@@ -59,10 +45,13 @@ test.describe("GraphQL UI – Mocking with Playwright", () => {
             return route.fulfill({
             status: 200,
             contentType: "application/json",
-            body: JSON.stringify({
-                data: null,
-                errors: [{ message: "Mocked GraphQL error: Unauthorized" }],
-            }),
+            body: JSON.stringify(errorResponse(
+                graphqlError("Mocked GraphQL error: Unauthorized", {
+                path: ["countries"],
+                locations: [{ line: 2, column: 9 }],
+                code: "UNAUTHENTICATED",
+                })
+            )),
             });
         }
 
@@ -99,7 +88,7 @@ test.describe("GraphQL UI – Mocking with Playwright", () => {
     await page.locator("button.graphiql-execute-button").click();
   }
 
-  test("mock GraphQL query response", async ({ page }) => {
+  test("mock GraphQL query response", async ({ page, mockMode }) => {
     await runQuery(
       page,
       `query GetCountries {
@@ -111,7 +100,7 @@ test.describe("GraphQL UI – Mocking with Playwright", () => {
       }`
     );
 
-    if (useMocks()) {
+    if (mockMode === "mocked") {
         await expect(page.getByText("India")).toBeVisible();
         await expect(page.getByText("United Kingdom")).toBeVisible();
         console.log("Mocking mode; asserted mocked countries in UI.");
@@ -122,7 +111,7 @@ test.describe("GraphQL UI – Mocking with Playwright", () => {
 
   // RUN THIS TEST ONLY IN DEBUG MODE, AS IT NEEDS MANUAL INTERVENTION
   // THIS TEST WILL FAIL IN CI, DUE TO ABOVE, BUT KEEP IT FOR FAILURE REFERENCE
-  test("mock GraphQL query using variables", async ({ page }) => {
+  test("mock GraphQL query using variables", async ({ page, mockMode }) => {
     await runQuery(
       page,
       `query CountryByCode($code: ID!) {
@@ -134,7 +123,7 @@ test.describe("GraphQL UI – Mocking with Playwright", () => {
       `{ "code": "IN" }`
     );
 
-    if (useMocks()) {
+    if (mockMode === "mocked") {
         await expect(page.getByText("India")).toBeVisible();
         console.log("Mocking mode; asserted mocked country in UI.");
     } else {
@@ -142,7 +131,7 @@ test.describe("GraphQL UI – Mocking with Playwright", () => {
     }
   });
 
-  test("mock GraphQL error response", async ({ page }) => {
+  test("mock GraphQL error response", async ({ page, mockMode }) => {
     await runQuery(
       page,
       `query GetCountriesError {
@@ -153,7 +142,7 @@ test.describe("GraphQL UI – Mocking with Playwright", () => {
       }`
     );
 
-    if (useMocks()) {
+    if (mockMode === "mocked") {
         await expect(page.getByText("Mocked GraphQL error", { exact: false })).toBeVisible({ timeout: 10_000 });
         console.log("Mocking mode; asserted mocked error in UI.");
     } else {
@@ -2,7 +2,7 @@
  * GraphQL Smart Mocking Tests
  * 
  * These tests use pre-generated mock files to test GraphQL operations offline.
- * Mocks are imported directly from *.mock.ts files (source of truth for tests).
+ * Mocks are read from *.mock.json files (source of truth for tests) through the registry.
  * 
  * Setup (run these scripts manually when needed):
  * - npm run mock:record   → Record operations to HAR
@@ -11,20 +11,32 @@
  * - npm run mock:validate → Check for drift vs live server
  * 
  * These tests run offline using committed mock files.
- * Tests will FAIL if a required mock is missing (strict mode).
+ * Tests will FAIL if a required mock is missing (strict mode), listing the
+ * missing operations and their variables once the test ends.
  */
 
-import { test, expect, Page } from "@playwright/test";
+import type { AddressInfo } from "net";
+import { Page } from "@playwright/test";
+import { buildSchema } from "graphql";
+import { WebSocketServer } from "ws";
+import { test, expect } from "./utils/mock-fixtures";
 import { GRAPHQL_MOCKS } from "../mocks/graphql/mock-registry";
-import { setupGraphQLMocks } from "./utils/mock-helper";
+import { GraphQLMockHandle, setupGraphQLMocks } from "./utils/mock-helper";
+import { persistedQueryHash } from "../mocks/graphql/graphql-document";
+import { createMockRegistry } from "../mocks/graphql/mock-matcher";
+import { COUNTRIES_ENDPOINT } from "./utils/graphql-endpoints";
+import { fieldError, networkError, rateLimited } from "../mocks/graphql/mock-errors";
+import { failThenSucceed, sequence } from "../mocks/graphql/mock-sequence";
+import { getUnmatchedRequests, reportUnmatchedRequests } from "./utils/unmatched-requests";
 import type { GetCountriesResponse } from '../mocks/graphql/GetCountries.mock';
 import type { Country } from '../mocks/graphql/generated-types';
 
 const GQL_API_URL = "**://countries.trevorblades.com/**";
 
-// Strict Mock Mode: Fail tests if mocks are missing (default: true)
+// Mocks come from the gqlMock fixture, configured by the "mocked" project in playwright.config.ts
+// Strict Mock Mode: Fail tests if mocks are missing (default)
 // Set MOCK_STRICT=false to allow fallback to live server (permissive mode)
-const STRICT_MOCK_MODE = process.env.MOCK_STRICT !== "false";
+// Set MOCK_FALLBACK=auto to answer unmocked operations from the schema (auto mode)
 
 /**
  * GraphQL Queries
@@ -47,6 +59,13 @@ const GET_COUNTRY_QUERY = `query GetCountry {
   }
 }`;
 
+const COUNTRY_BY_CODE_QUERY = `query CountryByCode($code: ID!) {
+  country(code: $code) {
+    code
+    name
+  }
+}`;
+
 /**
  * Helper: Execute GraphQL query
  */
@@ -73,8 +92,10 @@ async function executeGraphQLQuery(
   );
 }
 
-test.beforeEach(async ({ page }) => {
-  await setupGraphQLMocks(page, STRICT_MOCK_MODE);
+let gql: GraphQLMockHandle;
+
+test.beforeEach(async ({ page, gqlMock }) => {
+  gql = gqlMock;
   await page.goto("about:blank");
 });
 
@@ -125,3 +146,819 @@ test("GetCountry operation returns specific country details", async ({ page }) =
   console.log(`   Currency: ${response.data.country.currency}`);
 });
 
+/**
+ * Test: Response projection
+ * The mock may hold more fields than GET_COUNTRY_QUERY selects (here added by a
+ * spec-local override), but only the selected fields are served (as a real server would)
+ */
+test("GetCountry operation returns only the requested fields", async ({ page }) => {
+  gql.override("GetCountry", (mock) => ({
+    ...mock,
+    data: { country: { ...mock.data.country, emojiU: "U+1F1FA U+1F1F8", continent: { code: "NA", name: "North America" } } },
+  }));
+  const response = await executeGraphQLQuery(page, "GetCountry", GET_COUNTRY_QUERY);
+
+  expect(Object.keys(response.data.country).sort()).toEqual(
+    ["capital", "code", "currency", "emoji", "name"]
+  );
+  expect(response.data.country.emojiU).toBeUndefined();
+  expect(response.data.country.continent).toBeUndefined();
+
+  console.log("✅ GetCountry mock pruned to the requested fields");
+});
+
+/**
+ * Test: __typename and abstract fragments
+ * With the endpoint's schema, a __typename the mock lacks is filled in, fragments on an
+ * interface match its implementations, and fragments on other types don't apply
+ */
+test("Projection fills in __typename and matches interface fragments from the schema", async ({ context }) => {
+  const catalogPage = await context.newPage();
+  await setupGraphQLMocks(catalogPage, "strict", {
+    endpoints: [{
+      name: "catalog",
+      url: "https://catalog.example.com/graphql",
+      registry: createMockRegistry({
+        mocks: new Map([["GetProduct", { data: { product: { id: "p1", name: "Lamp", uptime: 99 } } }]]),
+      }),
+      schema: buildSchema(`
+        interface Node { id: ID! }
+        type Product implements Node { id: ID! name: String! }
+        type Service implements Node { id: ID! uptime: Int! }
+        type Query { product(id: ID!): Product }
+      `),
+    }],
+  });
+  await catalogPage.goto("about:blank");
+
+  const response = await catalogPage.evaluate(async () => {
+    const res = await fetch("https://catalog.example.com/graphql", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        operationName: "GetProduct",
+        query: `query GetProduct {
+          product(id: "p1") { __typename ...NodeId ... on Product { name } ... on Service { uptime } }
+        }
+        fragment NodeId on Node { id }`
+      })
+    });
+    return res.json();
+  });
+
+  expect(response.data.product).toEqual({ __typename: "Product", id: "p1", name: "Lamp" });
+
+  console.log("✅ GetProduct typed as Product, Node fragment applied, Service fragment skipped");
+});
+
+/**
+ * Test: Variable-aware mock matching
+ * The registry holds one response per recorded variables set
+ * and picks the one matching the request variables
+ */
+test("CountryByCode operation returns the variant matching its variables", async ({ page }) => {
+  const india = await executeGraphQLQuery(page, "CountryByCode", COUNTRY_BY_CODE_QUERY, { code: "IN" });
+  const uk = await executeGraphQLQuery(page, "CountryByCode", COUNTRY_BY_CODE_QUERY, { code: "GB" });
+
+  expect(india.data.country.code).toBe("IN");
+  expect(india.data.country.name).toBe("India");
+  expect(uk.data.country.code).toBe("GB");
+  expect(uk.data.country.name).toBe("United Kingdom");
+
+  console.log("✅ CountryByCode variants served successfully");
+});
+
+/**
+ * Test: Variables without a recorded variant
+ * Every CountryByCode variant has variables, so its default is the India variant:
+ * strict mode reports "FR" as a miss instead of answering with India
+ */
+test("Variables matching no recorded variant are a strict-mode miss", async ({ context }, testInfo) => {
+  const strictPage = await context.newPage();
+  await setupGraphQLMocks(strictPage, "strict");
+  await strictPage.goto("about:blank");
+
+  const response = await executeGraphQLQuery(strictPage, "CountryByCode", COUNTRY_BY_CODE_QUERY, { code: "FR" });
+
+  expect(response.data).toBeNull();
+  expect(response.errors[0].extensions.code).toBe("MOCK_NOT_FOUND");
+  await expect(reportUnmatchedRequests(strictPage, testInfo)).rejects.toThrow(
+    /CountryByCode variables=\{"code":"FR"\} - No CountryByCode variant recorded for these variables/
+  );
+
+  console.log("✅ CountryByCode FR reported instead of served as India");
+});
+
+/**
+ * Test: Schema auto-mock fallback
+ * GetLanguages has no recorded mock; auto mode builds a schema-valid,
+ * deterministic response so new screens can be tested before recording
+ */
+test("Unrecorded operation is auto-mocked from the schema in auto mode", async ({ page }) => {
+  await setupGraphQLMocks(page, "auto");
+
+  const query = `query GetLanguages {
+  languages {
+    code
+    name
+    rtl
+  }
+}`;
+  const first = await executeGraphQLQuery(page, "GetLanguages", query);
+  const second = await executeGraphQLQuery(page, "GetLanguages", query);
+
+  expect(first.data.languages.length).toBeGreaterThan(0);
+  expect(typeof first.data.languages[0].rtl).toBe("boolean");
+  expect(second).toEqual(first);
+
+  console.log("✅ GetLanguages auto-mocked from schema");
+});
+
+/**
+ * Test: Auto-mock of operations the schema can't serve
+ * schema.graphql has no Mutation type and no Country.population field:
+ * auto mode answers with a validation error, as the server would, instead of failing the request
+ */
+test("Auto mode answers a mutation the schema has no type for with a validation error", async ({ page }) => {
+  await setupGraphQLMocks(page, "auto");
+
+  const response = await executeGraphQLQuery(page, "AddFavorite", `mutation AddFavorite {
+  addFavorite(code: "US") {
+    code
+  }
+}`);
+
+  expect(response.data).toBeNull();
+  expect(response.errors[0].extensions.code).toBe("GRAPHQL_VALIDATION_FAILED");
+  expect(response.errors[0].message).toContain("mutation");
+
+  console.log("✅ AddFavorite answered with a validation error");
+});
+
+test("Auto mode answers a field missing from the schema with a validation error", async ({ page }) => {
+  await setupGraphQLMocks(page, "auto");
+
+  const response = await executeGraphQLQuery(page, "GetCountryPopulation", `query GetCountryPopulation {
+  country(code: "US") {
+    code
+    population
+  }
+}`);
+
+  expect(response.data).toBeNull();
+  expect(response.errors).toEqual([
+    expect.objectContaining({
+      message: 'Cannot query field "population" on type "Country".',
+      extensions: { code: "GRAPHQL_VALIDATION_FAILED" },
+    }),
+  ]);
+
+  console.log("✅ GetCountryPopulation answered with a validation error");
+});
+
+/**
+ * Test: Batched operations
+ * Apollo / urql can send several operations in one POST;
+ * each is resolved from the registry and answered in order
+ */
+test("Batched operations are answered with an array of results in order", async ({ page }) => {
+  const responses = await page.evaluate(
+    async ({ countryQuery, countriesQuery }) => {
+      const res = await fetch("https://countries.trevorblades.com/", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify([
+          { operationName: "GetCountry", query: countryQuery },
+          { operationName: "GetCountries", query: countriesQuery }
+        ])
+      });
+      return res.json();
+    },
+    { countryQuery: GET_COUNTRY_QUERY, countriesQuery: GET_COUNTRIES_QUERY }
+  );
+
+  expect(Array.isArray(responses)).toBe(true);
+  expect(responses).toHaveLength(2);
+  expect(responses[0].data.country.code).toBe("US");
+  expect(responses[1].data.countries.length).toBeGreaterThan(0);
+
+  console.log("✅ Batched GetCountry + GetCountries served successfully");
+});
+
+/**
+ * Test: GET transport + automatic persisted queries (APQ)
+ * A hash-only request is answered with PersistedQueryNotFound,
+ * the retry with the full query registers it, later hash-only requests are served.
+ * Only requests served with data are calls; a hash not matching its query is a 400.
+ */
+test("Persisted GET query goes through the PersistedQueryNotFound round-trip", async ({ page }) => {
+  const extensions = {
+    persistedQuery: { version: 1, sha256Hash: persistedQueryHash(GET_COUNTRY_QUERY) }
+  };
+
+  const executePersistedQuery = (query?: string) =>
+    page.evaluate(
+      async ({ query, extensions }) => {
+        const params = new URLSearchParams({
+          operationName: "GetCountry",
+          extensions: JSON.stringify(extensions),
+          ...(query && { query })
+        });
+        const res = await fetch(`https://countries.trevorblades.com/?${params}`);
+        return { status: res.status, body: await res.json() };
+      },
+      { query, extensions }
+    );
+
+  const miss = await executePersistedQuery();
+  expect(miss.status).toBe(200);
+  expect(miss.body.errors[0].message).toBe("PersistedQueryNotFound");
+
+  const retry = await executePersistedQuery(GET_COUNTRY_QUERY);
+  expect(retry.body.data.country.code).toBe("US");
+
+  const hit = await executePersistedQuery();
+  expect(hit.body.data.country.code).toBe("US");
+  await expect(gql.calls.operation("GetCountry")).toHaveBeenCalledTimes(2);
+
+  const mismatch = await executePersistedQuery(GET_COUNTRIES_QUERY);
+  expect(mismatch.status).toBe(400);
+  expect(mismatch.body.errors[0].message).toBe("provided sha does not match query");
+  await expect(gql.calls.operation("GetCountry")).toHaveBeenCalledTimes(2);
+
+  console.log("✅ APQ round-trip emulated for GetCountry");
+});
+
+/**
+ * Test: Per-test overrides
+ * "GetCountry as usual, but with capital null" without rewriting the route
+ */
+test("Overrides change a registry mock for the current test only", async ({ page }) => {
+  gql.override("GetCountry", { data: { country: { capital: null } } });
+  // Typed from the registry: mock is a GetCountryResponse
+  gql.override("GetCountry", (mock) => {
+    mock.data.country!.name = mock.data.country!.name.toUpperCase();
+    return mock;
+  });
+
+  const response = await executeGraphQLQuery(page, "GetCountry", GET_COUNTRY_QUERY);
+
+  expect(response.data.country.capital).toBeNull();
+  expect(response.data.country.name).toBe("UNITED STATES");
+  expect(response.data.country.currency).toBeDefined();
+
+  gql.reset();
+  const baseline = await executeGraphQLQuery(page, "GetCountry", GET_COUNTRY_QUERY);
+  expect(baseline.data.country.capital).toBe("Washington D.C.");
+
+  console.log("✅ GetCountry override applied and reset");
+});
+
+/**
+ * Test: Failure simulation
+ * Partial data with a field error, then HTTP 429 and a transport abort
+ */
+test("Failure helpers simulate field errors, rate limiting and network errors", async ({ page }) => {
+  gql.override("GetCountry", fieldError(["country", "capital"], "Capital service down"));
+
+  const partial = await executeGraphQLQuery(page, "GetCountry", GET_COUNTRY_QUERY);
+  expect(partial.data.country.capital).toBeNull();
+  expect(partial.data.country.name).toBe("United States");
+  expect(partial.errors).toEqual([
+    {
+      message: "Capital service down",
+      path: ["country", "capital"],
+      extensions: { code: "INTERNAL_SERVER_ERROR" },
+    },
+  ]);
+
+  gql.override("GetCountries", rateLimited(30));
+  const throttled = await page.evaluate(async (query) => {
+    const res = await fetch("https://countries.trevorblades.com/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ operationName: "GetCountries", query })
+    });
+    return { status: res.status, retryAfter: res.headers.get("Retry-After"), body: await res.json() };
+  }, GET_COUNTRIES_QUERY);
+  expect(throttled.status).toBe(429);
+  expect(throttled.retryAfter).toBe("30");
+  expect(throttled.body.errors[0].extensions.code).toBe("RATE_LIMITED");
+
+  gql.override("GetCountries", networkError());
+  await expect(executeGraphQLQuery(page, "GetCountries", GET_COUNTRIES_QUERY)).rejects.toThrow(/Failed to fetch/);
+
+  console.log("✅ Field error, 429 and network error simulated");
+});
+
+/**
+ * Test: Latency
+ * Mocked responses wait like a real server would, so spinners and races get exercised
+ */
+test("Latency settings delay mocked responses per operation", async ({ context, mockStrictness }) => {
+  const slowPage = await context.newPage();
+  await setupGraphQLMocks(slowPage, mockStrictness, {
+    latency: { default: 0, operations: { GetCountries: 600 } },
+  });
+  await slowPage.goto("about:blank");
+
+  const timeQuery = (operationName: string, query: string) => slowPage.evaluate(async ({ operationName, query }) => {
+    const start = performance.now();
+    await fetch("https://countries.trevorblades.com/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ operationName, query })
+    });
+    return performance.now() - start;
+  }, { operationName, query });
+
+  expect(await timeQuery("GetCountries", GET_COUNTRIES_QUERY)).toBeGreaterThanOrEqual(600);
+  expect(await timeQuery("GetCountry", GET_COUNTRY_QUERY)).toBeLessThan(600);
+
+  console.log("✅ GetCountries delayed, GetCountry served instantly");
+});
+
+/**
+ * Test: Strict-mode miss report
+ * The request is answered with MOCK_NOT_FOUND instead of hanging, and the miss is
+ * collected for the end-of-test report (a separate page, so this test itself passes)
+ */
+test("Strict-mode misses are answered with an error and reported with their variables", async ({ context }, testInfo) => {
+  const strictPage = await context.newPage();
+  await setupGraphQLMocks(strictPage, "strict");
+  await strictPage.goto("about:blank");
+
+  const response = await strictPage.evaluate(async () => {
+    const res = await fetch("https://countries.trevorblades.com/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        operationName: "GetLanguage",
+        query: "query GetLanguage($code: ID!) { language(code: $code) { code name } }",
+        variables: { code: "en" }
+      })
+    });
+    return { status: res.status, body: await res.json() };
+  });
+
+  expect(response.status).toBe(500);
+  expect(response.body.errors[0].extensions.code).toBe("MOCK_NOT_FOUND");
+  expect(getUnmatchedRequests(strictPage)).toEqual([
+    expect.objectContaining({ operationName: "GetLanguage", variables: { code: "en" }, reason: "no mock" }),
+  ]);
+  await expect(reportUnmatchedRequests(strictPage, testInfo)).rejects.toThrow(
+    /GetLanguage variables=\{"code":"en"\} - no mock/
+  );
+
+  console.log("✅ GetLanguage miss answered and reported");
+});
+
+/**
+ * Test: Missing-field check (strict)
+ * `native` is in the schema but not in the recorded GetCountry response, so a query
+ * selecting it is a miss naming the field instead of a silently incomplete response
+ */
+test("Fields the mock lacks are a strict-mode miss naming their path", async ({ context }, testInfo) => {
+  const strictPage = await context.newPage();
+  await setupGraphQLMocks(strictPage, "strict");
+  await strictPage.goto("about:blank");
+
+  const response = await strictPage.evaluate(async () => {
+    const res = await fetch("https://countries.trevorblades.com/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ operationName: "GetCountry", query: 'query GetCountry { country(code: "US") { code native } }' })
+    });
+    return { status: res.status, body: await res.json() };
+  });
+
+  expect(response.status).toBe(500);
+  expect(response.body.errors[0].extensions.code).toBe("MOCK_NOT_FOUND");
+  await expect(reportUnmatchedRequests(strictPage, testInfo)).rejects.toThrow(
+    /GetCountry variables=\{\} - Mock GetCountry\.mock\.json is missing requested field\(s\): country\.native/
+  );
+
+  console.log("✅ Missing country.native answered and reported");
+});
+
+/**
+ * Test: Missing-field check and __typename
+ * Apollo-style clients add __typename to every selection; a recording without it is still complete
+ */
+test("A __typename-decorated query is served in strict mode from a mock recorded without it", async ({ context }) => {
+  const strictPage = await context.newPage();
+  await setupGraphQLMocks(strictPage, "strict");
+  await strictPage.goto("about:blank");
+
+  const response = await executeGraphQLQuery(
+    strictPage,
+    "GetCountry",
+    'query GetCountry { country(code: "US") { __typename code name } __typename }'
+  );
+
+  expect(response.errors).toBeUndefined();
+  expect(response.data).toEqual({
+    country: { __typename: "Country", code: "US", name: "United States" },
+    __typename: "Query",
+  });
+  expect(getUnmatchedRequests(strictPage)).toEqual([]);
+
+  console.log("✅ GetCountry served with __typename filled in from the schema");
+});
+
+/**
+ * Test: Missing-field check (permissive)
+ * Outside strict mode the mock is served without the field and the gap is logged
+ */
+test("Fields the mock lacks are served without them and warned about outside strict mode", async ({ context }) => {
+  const permissivePage = await context.newPage();
+  await setupGraphQLMocks(permissivePage, "permissive");
+  await permissivePage.goto("about:blank");
+
+  const logged: string[] = [];
+  const log = console.log;
+  console.log = (...args: unknown[]) => {
+    logged.push(args.join(" "));
+    log(...args);
+  };
+  try {
+    const response = await executeGraphQLQuery(
+      permissivePage, "GetCountry", 'query GetCountry { country(code: "US") { code native } }'
+    );
+    expect(response.data.country).toEqual({ code: "US" });
+  } finally {
+    console.log = log;
+  }
+
+  expect(getUnmatchedRequests(permissivePage)).toEqual([]);
+  expect(logged).toContainEqual(
+    expect.stringContaining("Mock GetCountry.mock.json is missing requested field(s): country.native")
+  );
+
+  console.log("✅ GetCountry served without country.native and warned about");
+});
+
+/**
+ * Test: Stale mocks with the 'fail' action
+ * Permissive mode doesn't send them to the live server either: they are answered and reported as misses
+ */
+test("Stale mocks fail in permissive mode when the policy says fail", async ({ context }, testInfo) => {
+  const permissivePage = await context.newPage();
+  await setupGraphQLMocks(permissivePage, "permissive", {
+    staleness: { maxAgeDays: 30, operations: {}, action: "fail" },
+  });
+  await permissivePage.goto("about:blank");
+
+  const response = await permissivePage.evaluate(async () => {
+    const res = await fetch("https://countries.trevorblades.com/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ operationName: "GetCountry", query: 'query GetCountry { country(code: "US") { code name } }' })
+    });
+    return { status: res.status, body: await res.json() };
+  });
+
+  expect(response.status).toBe(500);
+  expect(response.body.errors[0].extensions.code).toBe("MOCK_NOT_FOUND");
+  await expect(reportUnmatchedRequests(permissivePage, testInfo)).rejects.toThrow(
+    /GetCountry variables=\{\} - Stale mock GetCountry\.mock\.json recorded \d+ days ago/
+  );
+
+  console.log("✅ Stale GetCountry answered and reported in permissive mode");
+});
+
+/**
+ * Test: Throwing mock handler
+ * An error in a handler (or transform override) is answered with MOCK_HANDLER_ERROR
+ * instead of leaving the request hanging, and reported like a miss
+ */
+test("A throwing handler is answered with an error and reported", async ({ context }, testInfo) => {
+  const strictPage = await context.newPage();
+  const strictGql = await setupGraphQLMocks(strictPage, "strict");
+  strictGql.handle("GetCountry", () => {
+    throw new Error("store is empty");
+  });
+  await strictPage.goto("about:blank");
+
+  const response = await strictPage.evaluate(async (query) => {
+    const res = await fetch("https://countries.trevorblades.com/", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ operationName: "GetCountry", query })
+    });
+    return { status: res.status, body: await res.json() };
+  }, GET_COUNTRY_QUERY);
+
+  expect(response.status).toBe(500);
+  expect(response.body.errors[0].extensions.code).toBe("MOCK_HANDLER_ERROR");
+  expect(response.body.errors[0].message).toContain("GetCountry: store is empty");
+  await expect(reportUnmatchedRequests(strictPage, testInfo)).rejects.toThrow(
+    /GetCountry variables=\{\} - mock handler error: store is empty/
+  );
+
+  console.log("✅ Throwing GetCountry handler answered and reported");
+});
+
+/**
+ * Test: Call recording
+ * The mock layer records every served operation, so tests assert on calls instead of ad-hoc flags
+ */
+test("Served operations are recorded with variables and order", async ({ page }) => {
+  await executeGraphQLQuery(page, "GetCountries", GET_COUNTRIES_QUERY);
+  await executeGraphQLQuery(page, "CountryByCode", COUNTRY_BY_CODE_QUERY, { code: "IN" });
+  await executeGraphQLQuery(page, "CountryByCode", COUNTRY_BY_CODE_QUERY, { code: "GB" });
+
+  await expect(gql.calls.operation("GetCountries")).toHaveBeenCalledTimes(1);
+  await expect(gql.calls.operation("CountryByCode")).toHaveBeenCalledTimes(2);
+  await expect(gql.calls.operation("CountryByCode")).toHaveBeenCalledWithVariables({ code: "GB" });
+  await expect(gql.calls.operation("CountryByCode")).not.toHaveBeenCalledWithVariables({ code: "US" });
+  await expect(gql.calls.operation("GetCountries")).toHaveBeenCalledBefore(gql.calls.operation("CountryByCode"));
+  expect(gql.calls.sequence()).toEqual(["GetCountries", "CountryByCode", "CountryByCode"]);
+
+  console.log("✅ Calls recorded in order with their variables");
+});
+
+/**
+ * Test: Stateful mock store
+ * Mutation handlers change the store; later queries (handled or from the registry) read it
+ */
+test("Mutations update the mock store and later queries read from it", async ({ page }) => {
+  gql.handle("AddFavoriteCountry", (store, { code }) => {
+    store.collection<string>("favorites").push(code as string);
+    return { data: { addFavoriteCountry: store.get("Country", code as string) } };
+  });
+  gql.handle("GetFavoriteCountries", (store) => ({
+    data: { favoriteCountries: store.collection<string>("favorites").map(code => store.get("Country", code)) },
+  }));
+  gql.handle("RenameCountry", (store, { code, name }) => ({
+    data: { renameCountry: store.upsert("Country", { code: code as string, name }) },
+  }));
+
+  const GET_FAVORITES = `query GetFavoriteCountries { favoriteCountries { code name } }`;
+  const ADD_FAVORITE = `mutation AddFavoriteCountry($code: ID!) { addFavoriteCountry(code: $code) { code } }`;
+  const RENAME = `mutation RenameCountry($code: ID!, $name: String!) { renameCountry(code: $code, name: $name) { code name } }`;
+
+  const before = await executeGraphQLQuery(page, "GetFavoriteCountries", GET_FAVORITES);
+  expect(before.data.favoriteCountries).toEqual([]);
+
+  await executeGraphQLQuery(page, "AddFavoriteCountry", ADD_FAVORITE, { code: "IN" });
+  const after = await executeGraphQLQuery(page, "GetFavoriteCountries", GET_FAVORITES);
+  expect(after.data.favoriteCountries).toEqual([{ code: "IN", name: "India" }]);
+
+  await executeGraphQLQuery(page, "RenameCountry", RENAME, { code: "US", name: "United States of America" });
+  const renamed = await executeGraphQLQuery(page, "GetCountry", GET_COUNTRY_QUERY);
+  expect(renamed.data.country.name).toBe("United States of America");
+
+  gql.reset();
+  const baseline = await executeGraphQLQuery(page, "GetCountry", GET_COUNTRY_QUERY);
+  expect(baseline.data.country.name).toBe("United States");
+
+  console.log("✅ Favourite added and country renamed through the store");
+});
+
+/**
+ * Test: Response sequences
+ * Polling gets a new answer per call; retries see failures before the mock
+ */
+test("Sequences answer repeated calls step by step", async ({ page }) => {
+  gql.override("GetCountries", sequence([{ data: { countries: [] } }, {}], { then: "cycle" }));
+
+  const counts = [];
+  for (let call = 0; call < 3; call++) {
+    const response = await executeGraphQLQuery(page, "GetCountries", GET_COUNTRIES_QUERY);
+    counts.push(response.data.countries.length);
+  }
+  expect(counts[0]).toBe(0);
+  expect(counts[1]).toBeGreaterThan(0);
+  expect(counts[2]).toBe(0);
+
+  gql.override("GetCountry", failThenSucceed(2));
+  const statuses = await page.evaluate(async (query) => {
+    const result = [];
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const res = await fetch("https://countries.trevorblades.com/", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ operationName: "GetCountry", query })
+      });
+      result.push(res.status);
+    }
+    return result;
+  }, GET_COUNTRY_QUERY);
+  expect(statuses).toEqual([503, 503, 200]);
+
+  console.log("✅ GetCountries cycled, GetCountry failed twice then succeeded");
+});
+
+/**
+ * Test: Subscriptions over WebSocket
+ * graphql-ws handshake, scripted events from the registry, then one pushed by the test
+ */
+test("Subscriptions stream scripted events and accept extra ones on demand", async ({ page }) => {
+  await page.evaluate(() => {
+    const received: any[] = [];
+    (window as any).received = received;
+
+    const ws = new WebSocket("wss://countries.trevorblades.com/graphql", "graphql-transport-ws");
+    ws.onopen = () => ws.send(JSON.stringify({ type: "connection_init" }));
+    ws.onmessage = (event) => {
+      const message = JSON.parse(event.data);
+      received.push(message);
+      if (message.type === "connection_ack") {
+        ws.send(JSON.stringify({
+          id: "1",
+          type: "subscribe",
+          payload: {
+            operationName: "OnCountryUpdated",
+            query: "subscription OnCountryUpdated { countryUpdated { code name capital } }"
+          }
+        }));
+      }
+    };
+  });
+
+  const received = () => page.evaluate(() =>
+    (window as any).received.map((message: any) => message.payload?.data?.countryUpdated?.code ?? message.type)
+  );
+
+  await expect.poll(received).toEqual(["connection_ack", "US", "IN"]);
+  expect(gql.subscriptions.active()).toEqual([{ id: "1", operationName: "OnCountryUpdated", variables: {} }]);
+
+  gql.subscriptions.emit("OnCountryUpdated", {
+    data: { countryUpdated: { code: "GB", name: "United Kingdom", capital: "London" } },
+  });
+  gql.subscriptions.complete("OnCountryUpdated");
+
+  await expect.poll(received).toEqual(["connection_ack", "US", "IN", "GB", "complete"]);
+  await expect(gql.calls.operation("OnCountryUpdated")).toHaveBeenCalledTimes(1);
+
+  console.log("✅ OnCountryUpdated streamed 2 scripted events, 1 pushed, then completed");
+});
+
+/**
+ * Test: Unmocked subscriptions in permissive mode
+ * Like unmocked HTTP operations they go to the live server (a local graphql-ws server here),
+ * while mocked subscriptions on the same socket keep their scripted events
+ */
+test("Permissive mode relays unmocked subscriptions to the live server", async ({ context }) => {
+  const server = new WebSocketServer({ host: "127.0.0.1", port: 0 });
+  await new Promise(resolve => server.once("listening", resolve));
+  const url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  const serverMessages: string[] = [];
+  server.on("connection", (socket) => {
+    socket.on("message", (raw) => {
+      const message = JSON.parse(raw.toString());
+      serverMessages.push(message.type);
+      if (message.type === "connection_init") socket.send(JSON.stringify({ type: "connection_ack" }));
+      if (message.type === "subscribe") {
+        socket.send(JSON.stringify({ id: message.id, type: "next", payload: { data: { liveUpdate: "from server" } } }));
+        socket.send(JSON.stringify({ id: message.id, type: "complete" }));
+      }
+    });
+  });
+
+  try {
+    const permissivePage = await context.newPage();
+    const permissiveGql = await setupGraphQLMocks(permissivePage, "permissive", {
+      endpoints: [{ ...COUNTRIES_ENDPOINT, name: "live-ws", url }],
+    });
+    await permissivePage.goto("about:blank");
+
+    await permissivePage.evaluate((url) => {
+      const received: any[] = [];
+      (window as any).received = received;
+
+      const ws = new WebSocket(url, "graphql-transport-ws");
+      ws.onopen = () => ws.send(JSON.stringify({ type: "connection_init" }));
+      ws.onmessage = (event) => {
+        const message = JSON.parse(event.data);
+        received.push(message);
+        if (message.type !== "connection_ack") return;
+        ws.send(JSON.stringify({
+          id: "live",
+          type: "subscribe",
+          payload: { operationName: "OnLiveUpdate", query: "subscription OnLiveUpdate { liveUpdate }" }
+        }));
+        ws.send(JSON.stringify({
+          id: "mocked",
+          type: "subscribe",
+          payload: {
+            operationName: "OnCountryUpdated",
+            query: "subscription OnCountryUpdated { countryUpdated { code name capital } }"
+          }
+        }));
+      };
+    }, url);
+
+    const received = (id: string) => permissivePage.evaluate((id) =>
+      (window as any).received
+        .filter((message: any) => message.id === id || message.type === "connection_ack")
+        .map((message: any) => message.payload?.data?.liveUpdate ?? message.payload?.data?.countryUpdated?.code ?? message.type),
+      id
+    );
+
+    await expect.poll(() => received("live")).toEqual(["connection_ack", "from server", "complete"]);
+    await expect.poll(() => received("mocked")).toEqual(["connection_ack", "US", "IN"]);
+    expect(serverMessages).toEqual(["connection_init", "subscribe"]);
+    expect(getUnmatchedRequests(permissivePage)).toEqual([]);
+    await expect(permissiveGql.calls.operation("OnLiveUpdate")).toHaveBeenCalledTimes(0);
+
+    console.log("✅ OnLiveUpdate relayed to the live server, OnCountryUpdated mocked on the same socket");
+  } finally {
+    server.clients.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  }
+});
+
+/**
+ * Test: Multiple GraphQL endpoints
+ * Each endpoint has its own registry, so the same operation name serves different data
+ */
+test("Endpoints are mocked independently even when operation names collide", async ({ context }) => {
+  const inventoryPage = await context.newPage();
+  const mocks = await setupGraphQLMocks(inventoryPage, "strict", {
+    endpoints: [
+      COUNTRIES_ENDPOINT,
+      {
+        name: "inventory",
+        url: "https://inventory.example.com/graphql",
+        registry: createMockRegistry({
+          mocks: new Map([["GetCountry", { data: { country: { code: "US", stock: 12 } } }]]),
+        }),
+        introspection: "block",
+      },
+    ],
+  });
+  await inventoryPage.goto("about:blank");
+
+  const post = (url: string, operationName: string, query: string) => inventoryPage.evaluate(
+    async ({ url, operationName, query }) => {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ operationName, query }),
+      });
+      return { status: res.status, body: await res.json() };
+    },
+    { url, operationName, query }
+  );
+
+  const countries = await post("https://countries.trevorblades.com/", "GetCountry", GET_COUNTRY_QUERY);
+  const inventory = await post(
+    "https://inventory.example.com/graphql",
+    "GetCountry",
+    `query GetCountry { country(code: "US") { code stock } }`
+  );
+  expect(countries.body.data.country.name).toBe("United States");
+  expect(inventory.body.data.country).toEqual({ code: "US", stock: 12 });
+
+  const introspection = await post(
+    "https://inventory.example.com/graphql",
+    "IntrospectionQuery",
+    "query IntrospectionQuery { __schema { queryType { name } } }"
+  );
+  expect(introspection.status).toBe(400);
+
+  await expect(mocks.endpoint("countries").calls.operation("GetCountry")).toHaveBeenCalledTimes(1);
+  await expect(mocks.endpoint("inventory").calls.operation("GetCountry")).toHaveBeenCalledTimes(1);
+
+  console.log("✅ GetCountry served from both endpoints' registries");
+});
+
+/**
+ * Test: Context-level mocking
+ * Mocks attached to the browser context also answer popups, and misses name the page they came from
+ */
+test("Context-level mocks cover popups and report where a miss came from", async ({ context, page }) => {
+  const contextMocks = await setupGraphQLMocks(context, "strict");
+  const [popup] = await Promise.all([
+    page.waitForEvent("popup"),
+    page.evaluate(() => {
+      window.open("about:blank");
+    }),
+  ]);
+
+  const fetchFromPopup = (operationName: string, query: string) => popup.evaluate(
+    async ({ operationName, query }) => {
+      const res = await fetch("https://countries.trevorblades.com/", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ operationName, query }),
+      });
+      return { status: res.status, body: await res.json() };
+    },
+    { operationName, query }
+  );
+
+  const countries = await fetchFromPopup("GetCountries", GET_COUNTRIES_QUERY);
+  expect(countries.body.data.countries.length).toBe(GRAPHQL_MOCKS.get("GetCountries").data.countries.length);
+  await expect(contextMocks.calls.operation("GetCountries")).toHaveBeenCalledTimes(1);
+
+  const miss = await fetchFromPopup("GetLanguage", `query GetLanguage { language(code: "en") { code name } }`);
+  expect(miss.status).toBe(500);
+  expect(getUnmatchedRequests(context)).toEqual([
+    expect.objectContaining({ operationName: "GetLanguage", source: "popup 2 (about:blank)" }),
+  ]);
+
+  console.log("✅ Popup served by context-level mocks, miss reported with its source");
+});
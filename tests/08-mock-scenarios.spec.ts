@@ -0,0 +1,123 @@
+/**
+ * Named Mock Scenarios
+ * 
+ * Scenarios are bundles of GraphQL / REST overrides stored in mocks/scenarios.
+ * - Whole run: MOCK_SCENARIO=unauthorized npm test
+ * - Single test / describe: test.use({ mockScenario: "unauthorized" })
+ * The gqlMock / restMock fixtures apply the selected scenario.
+ */
+
+import { test, expect } from "./utils/mock-fixtures";
+import { Page } from "@playwright/test";
+import { setLocationAndFetch } from "./utils/fgraph-ui-actions";
+import { listScenarios, validateScenarios } from "../mocks/scenarios/scenario-registry";
+
+const GET_COUNTRIES_QUERY = `query GetCountries {
+  countries {
+    code
+    name
+    emoji
+  }
+}`;
+
+/**
+ * Helper: Execute GraphQL query
+ */
+async function executeGraphQLQuery(page: Page, operationName: string, query: string): Promise<any> {
+  return await page.evaluate(
+    async ({ operationName, query }) => {
+      const res = await fetch("https://countries.trevorblades.com/", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ operationName, query })
+      });
+      return res.json();
+    },
+    { operationName, query }
+  );
+}
+
+test("scenario registry lists scenarios that only refer to real operations", async () => {
+  const names = listScenarios().map(scenario => scenario.name);
+
+  expect(names).toEqual(expect.arrayContaining(["empty-countries", "rate-limited", "unauthorized", "weather-fetch-failed", "weather-retry"]));
+  expect(validateScenarios()).toEqual([]);
+});
+
+test.describe("GraphQL scenarios", () => {
+  // Requesting gqlMock installs the GraphQL mocks with the describe's scenario
+  test.beforeEach(async ({ page, gqlMock: _gqlMock }) => {
+    await page.goto("about:blank");
+  });
+
+  test.describe("empty-countries", () => {
+    test.use({ mockScenario: "empty-countries" });
+
+    test("GetCountries returns an empty list", async ({ page }) => {
+      const response = await executeGraphQLQuery(page, "GetCountries", GET_COUNTRIES_QUERY);
+
+      expect(response.data.countries).toEqual([]);
+    });
+  });
+
+  test.describe("rate-limited", () => {
+    test.use({ mockScenario: "rate-limited" });
+
+    test("GetCountries is throttled with 429 and Retry-After", async ({ page }) => {
+      const response = await page.evaluate(async (query) => {
+        const res = await fetch("https://countries.trevorblades.com/", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ operationName: "GetCountries", query })
+        });
+        return { status: res.status, retryAfter: res.headers.get("Retry-After") };
+      }, GET_COUNTRIES_QUERY);
+
+      expect(response.status).toBe(429);
+      expect(response.retryAfter).toBe("30");
+    });
+  });
+
+  test.describe("unauthorized", () => {
+    test.use({ mockScenario: "unauthorized" });
+
+    test("GetCountries is rejected as unauthenticated", async ({ page }) => {
+      const response = await executeGraphQLQuery(page, "GetCountries", GET_COUNTRIES_QUERY);
+
+      expect(response.data).toBeNull();
+      expect(response.errors[0].extensions.code).toBe("UNAUTHENTICATED");
+    });
+  });
+});
+
+test.describe("REST scenarios", () => {
+  test.describe("weather-fetch-failed", () => {
+    test.use({ mockScenario: "weather-fetch-failed" });
+
+    test("weather-fetch-failed shows the fetch error in the UI", async ({ page, restMock }) => {
+      test.skip(!restMock.enabled, "Scenarios only apply to mocked REST routes");
+      await setLocationAndFetch(page);
+
+      await expect(page.getByRole("heading", { name: /failed to fetch data/i })).toBeVisible({
+        timeout: 10_000,
+      });
+    });
+  });
+
+  test.describe("weather-retry", () => {
+    test.use({ mockScenario: "weather-retry" });
+
+    test("weather-retry fails the first fetch and succeeds on the second", async ({ page, restMock }) => {
+      test.skip(!restMock.enabled, "Scenarios only apply to mocked REST routes");
+      await setLocationAndFetch(page);
+
+      await expect(page.getByRole("heading", { name: /failed to fetch data/i })).toBeVisible({
+        timeout: 10_000,
+      });
+
+      await page.getByRole("button", { name: /fetch data/i }).click();
+      await expect(page.getByText("21.7", { exact: false })).toBeVisible({ timeout: 10_000 });
+      await expect(restMock.calls.url("forecast")).toHaveBeenCalledTimes(2);
+    });
+  });
+});
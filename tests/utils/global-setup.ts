@@ -0,0 +1,21 @@
+import { listMocks } from "../../mocks/graphql/mock-registry";
+import { findStaleMocks, formatStaleMock, rerecordCommand, stalenessPolicy } from "../../mocks/graphql/mock-staleness";
+
+/**
+ * Runs once before the suite (globalSetup in playwright.config.ts)
+ * Lists the recorded mocks past their maximum age; with MOCK_STALE=fail the run stops here.
+ * Reads mock-manifest.json only, no payload is loaded.
+ *
+ * @throws Error listing the stale mocks when the policy action is "fail"
+ */
+export default async function globalSetup(): Promise<void> {
+  const policy = stalenessPolicy();
+  const stale = findStaleMocks(listMocks(), policy);
+  if (stale.length === 0) return;
+
+  const report = stale.map(mock => `  - ${formatStaleMock(mock)}\n    → ${rerecordCommand(mock)}`).join("\n");
+  if (policy.action === "fail") {
+    throw new Error(`❌ ${stale.length} mock(s) past their maximum age:\n${report}`);
+  }
+  console.log(`⚠️  ${stale.length} mock(s) past their maximum age:\n${report}\n`);
+}
@@ -0,0 +1,62 @@
+import path from "path";
+import type { GraphQLSchema } from "graphql";
+import { loadMockSchema } from "../../mocks/graphql/auto-mock";
+import { mockRegistry } from "../../mocks/graphql/mock-registry";
+import type { MockRegistry } from "../../mocks/graphql/mock-types";
+import type { MissingMockMode } from "./mock-helper";
+
+/**
+ * What to do with IntrospectionQuery requests
+ * - passthrough: let them reach the live server (tools like GraphiQL keep working)
+ * - mock: answer from the committed schema snapshot, offline
+ * - block: answer with an error, for apps that must not introspect
+ */
+export type IntrospectionHandling = "passthrough" | "mock" | "block";
+
+/**
+ * One GraphQL backend of the app, mocked on its own
+ */
+export interface GraphQLEndpoint {
+  /** Identifies the endpoint in handles, call logs and miss reports */
+  name: string;
+  /**
+   * Playwright URL pattern of the endpoint, for HTTP and WebSocket alike
+   * Match the exact path: with overlapping patterns the first endpoint listed wins.
+   */
+  url: string | RegExp;
+  /** Mocks of this endpoint; operation names only need to be unique within it */
+  registry: MockRegistry;
+  /** Missing-mock mode of this endpoint (default: the mode passed to setupGraphQLMocks) */
+  mode?: boolean | MissingMockMode;
+  /** Default: "mock" in auto mode, "passthrough" otherwise */
+  introspection?: IntrospectionHandling;
+  /** Schema of the API: fills in `__typename` and matches interface / union fragments in mocks */
+  schema?: GraphQLSchema;
+  /** HAR file the mocks were recorded to: "recorded" latency replays its timings (none without it) */
+  har?: string;
+}
+
+/**
+ * The Countries API, served at the root of countries.trevorblades.com
+ * (and at /graphql for WebSocket subscriptions)
+ */
+export const COUNTRIES_ENDPOINT: GraphQLEndpoint = {
+  name: "countries",
+  url: "**://countries.trevorblades.com/**",
+  registry: mockRegistry,
+  schema: loadMockSchema(),
+  har: path.join(process.cwd(), "mocks", "graphql-operations.har"),
+};
+
+/**
+ * Endpoints mocked when setupGraphQLMocks is called without `endpoints`
+ */
+export const DEFAULT_GRAPHQL_ENDPOINTS: GraphQLEndpoint[] = [COUNTRIES_ENDPOINT];
+
+/**
+ * Resolves the missing-mock mode of an endpoint
+ */
+export function endpointMode(endpoint: GraphQLEndpoint, fallback: MissingMockMode): MissingMockMode {
+  const mode = endpoint.mode ?? fallback;
+  return mode === true ? "strict" : mode === false ? "permissive" : mode;
+}
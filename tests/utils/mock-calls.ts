@@ -0,0 +1,238 @@
+import type { ExpectMatcherState, MatcherReturnType, Request, Route } from "@playwright/test";
+import { variablesKey } from "../../mocks/graphql/mock-matcher";
+import type { MockTarget } from "./mock-target";
+
+/**
+ * One call served by a mock layer
+ */
+export interface MockCall {
+  /** Position among the page's mocked calls (GraphQL and REST share one sequence), from 1 */
+  order: number;
+  layer: "graphql" | "rest";
+  /** GraphQL endpoint name (see tests/utils/graphql-endpoints.ts); undefined for REST */
+  endpoint?: string;
+  /** GraphQL operation name (null for REST and anonymous operations) */
+  operationName: string | null;
+  method: string;
+  url: string;
+  /** GraphQL variables (empty for REST) */
+  variables: Record<string, unknown>;
+  headers: Record<string, string>;
+  /** GraphQL request body of the operation, or the REST body (JSON when it parses, else text) */
+  body: unknown;
+}
+
+/**
+ * The calls of one operation or URL
+ * Reads the log on every access, so matchers can wait for calls still in flight.
+ */
+export interface MockCallQuery {
+  /** What was queried, for assertion messages */
+  description: string;
+  readonly calls: MockCall[];
+}
+
+/**
+ * Every call the mock layers served on a page, in order
+ */
+export interface MockCallLog {
+  all(): MockCall[];
+  /** Calls of a GraphQL operation */
+  operation(operationName: string): MockCallQuery;
+  /** REST calls whose URL contains the string or matches the RegExp */
+  url(pattern: string | RegExp): MockCallQuery;
+  /** Operation names (REST: `METHOD url`) in call order */
+  sequence(): string[];
+  /** The calls of one GraphQL endpoint, as a log of its own */
+  endpoint(name: string): MockCallLog;
+  clear(): void;
+}
+
+type RecordingCallLog = MockCallLog & { record(call: Omit<MockCall, "order">): void };
+
+const targetLogs = new WeakMap<MockTarget, RecordingCallLog>();
+
+interface CallLogState {
+  calls: MockCall[];
+  order: number;
+}
+
+/**
+ * A view of the page's calls; `scope` narrows it to one endpoint
+ * Clearing a scoped view only drops its own calls, numbering goes on.
+ */
+function callLogView(state: CallLogState, scope: (call: MockCall) => boolean, prefix = ""): MockCallLog {
+  const scoped = () => state.calls.filter(scope);
+  const query = (description: string, filter: (call: MockCall) => boolean): MockCallQuery => ({
+    description: `${prefix}${description}`,
+    get calls() {
+      return scoped().filter(filter);
+    },
+  });
+
+  return {
+    all() {
+      return scoped();
+    },
+    operation(operationName) {
+      return query(operationName, call => call.layer === "graphql" && call.operationName === operationName);
+    },
+    url(pattern) {
+      return query(String(pattern), call => call.layer === "rest" &&
+        (typeof pattern === "string" ? call.url.includes(pattern) : pattern.test(call.url)));
+    },
+    sequence() {
+      return scoped().map(call => call.operationName ?? `${call.method} ${call.url}`);
+    },
+    endpoint(name) {
+      return callLogView(state, call => scope(call) && call.endpoint === name, `[${name}] `);
+    },
+    clear() {
+      state.calls = state.calls.filter(call => !scope(call));
+      if (state.calls.length === 0) state.order = 0;
+    },
+  };
+}
+
+function createMockCallLog(): RecordingCallLog {
+  const state: CallLogState = { calls: [], order: 0 };
+
+  return {
+    ...callLogView(state, () => true),
+    record(call) {
+      state.calls.push({ ...call, order: ++state.order });
+    },
+  };
+}
+
+/**
+ * The call log of a page (or a browser context), shared by the GraphQL and REST mock layers
+ */
+export function getMockCalls(target: MockTarget): RecordingCallLog {
+  let log = targetLogs.get(target);
+  if (!log) {
+    log = createMockCallLog();
+    targetLogs.set(target, log);
+  }
+  return log;
+}
+
+/**
+ * Records the REST calls a route handler receives, then runs it
+ *
+ * @example
+ * ```typescript
+ * await page.route(API_PATTERN, recordCalls(page, async (route) => {
+ *   await route.fulfill(mockedForecastResponse);
+ * }));
+ * await expect(getMockCalls(page).url("forecast")).toHaveBeenCalledTimes(1);
+ * ```
+ */
+export function recordCalls(
+  target: MockTarget,
+  handler: (route: Route, request: Request) => Promise<unknown>
+): (route: Route, request: Request) => Promise<void> {
+  return async (route, request) => {
+    const postData = request.postData();
+    let body: unknown = postData;
+    try {
+      body = postData ? JSON.parse(postData) : null;
+    } catch {
+      // Not JSON, keep the text
+    }
+
+    getMockCalls(target).record({
+      layer: "rest",
+      operationName: null,
+      method: request.method(),
+      url: request.url(),
+      variables: {},
+      headers: request.headers(),
+      body,
+    });
+    await handler(route, request);
+  };
+}
+
+/**
+ * Re-checks a condition until it holds (or, with .not, stops holding) or the assertion times out
+ * Calls are recorded asynchronously, so a request the page just sent may not be logged yet.
+ */
+async function waitForCalls(
+  state: ExpectMatcherState,
+  check: () => MatcherReturnType,
+  options: MatcherOptions = {}
+): Promise<MatcherReturnType> {
+  const deadline = Date.now() + (options.timeout ?? state.timeout);
+  let result = check();
+  while (result.pass === state.isNot && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    result = check();
+  }
+  return result;
+}
+
+interface MatcherOptions {
+  /** How long to wait for the calls, in milliseconds (default: the expect timeout) */
+  timeout?: number;
+}
+
+function describeCalls(calls: MockCall[]): string {
+  if (calls.length === 0) return "  (no calls)";
+  return calls.map(call => `  #${call.order} ${call.method} ${call.url} variables=${JSON.stringify(call.variables)}`).join("\n");
+}
+
+/**
+ * Matchers reading from the call log, added to `expect` in tests/utils/mock-fixtures
+ */
+export const mockCallMatchers = {
+  async toHaveBeenCalledTimes(this: ExpectMatcherState, received: MockCallQuery, times: number, options?: MatcherOptions) {
+    return waitForCalls(this, () => {
+      const calls = received.calls;
+      return {
+        name: "toHaveBeenCalledTimes",
+        pass: calls.length === times,
+        expected: times,
+        actual: calls.length,
+        message: () =>
+          `Expected ${received.description} ${this.isNot ? "not " : ""}to have been called ${times} time(s), ` +
+          `got ${calls.length}:\n${describeCalls(calls)}`,
+      };
+    }, options);
+  },
+
+  async toHaveBeenCalledWithVariables(
+    this: ExpectMatcherState,
+    received: MockCallQuery,
+    variables: Record<string, unknown>,
+    options?: MatcherOptions
+  ) {
+    return waitForCalls(this, () => {
+      const calls = received.calls;
+      const key = variablesKey(variables);
+      return {
+        name: "toHaveBeenCalledWithVariables",
+        pass: calls.some(call => variablesKey(call.variables) === key),
+        expected: variables,
+        actual: calls.map(call => call.variables),
+        message: () =>
+          `Expected ${received.description} ${this.isNot ? "not " : ""}to have been called with ` +
+          `variables=${JSON.stringify(variables)}, calls:\n${describeCalls(calls)}`,
+      };
+    }, options);
+  },
+
+  async toHaveBeenCalledBefore(this: ExpectMatcherState, received: MockCallQuery, other: MockCallQuery, options?: MatcherOptions) {
+    return waitForCalls(this, () => {
+      const first = received.calls[0];
+      const otherFirst = other.calls[0];
+      return {
+        name: "toHaveBeenCalledBefore",
+        pass: !!first && !!otherFirst && first.order < otherFirst.order,
+        message: () =>
+          `Expected ${received.description} ${this.isNot ? "not " : ""}to have been called before ${other.description}:\n` +
+          `${received.description}:\n${describeCalls(received.calls)}\n${other.description}:\n${describeCalls(other.calls)}`,
+      };
+    }, options);
+  },
+};
@@ -0,0 +1,92 @@
+import { test as base, expect as baseExpect } from "@playwright/test";
+import { missingMockMode, mockMode, mockScenario, networkProfile } from "./mock-toggle";
+import { NetworkProfile, setNetworkProfile } from "./mock-latency";
+import { reportUnmatchedRequests } from "./unmatched-requests";
+import { mockCallMatchers } from "./mock-calls";
+import { GraphQLMocks, MissingMockMode, setupGraphQLMocks } from "./mock-helper";
+import { RestMockHandle, createRestMock } from "./rest-mock-helper";
+import { DEFAULT_GRAPHQL_ENDPOINTS, GraphQLEndpoint } from "./graphql-endpoints";
+
+/**
+ * - mocked: fixtures install the GraphQL / REST mocks
+ * - live: nothing is mocked, requests reach the real servers
+ */
+export type MockMode = "mocked" | "live";
+
+/**
+ * Options read from `use` in playwright.config.ts (per project) or test.use() (per file / describe)
+ */
+export interface MockFixtureOptions {
+  /**
+   * Whether mocks are installed
+   * Defaults to USE_MOCKS for the whole run; the "mocked" and "live" projects set it explicitly
+   */
+  mockMode: MockMode;
+  /**
+   * What gqlMock does with operations that have no mock
+   * Defaults to MOCK_STRICT / MOCK_FALLBACK (strict unless set)
+   */
+  mockStrictness: MissingMockMode;
+  /**
+   * Named scenario from mocks/scenarios, applied by gqlMock and restMock
+   * Defaults to MOCK_SCENARIO for the whole run; override per test with test.use()
+   */
+  mockScenario: string | undefined;
+  /** GraphQL endpoints gqlMock mocks (default: the Countries API) */
+  mockEndpoints: GraphQLEndpoint[];
+  /**
+   * Where gqlMock and restMock attach: the test's page, or its browser context
+   * "context" also covers popups and new tabs the app opens
+   */
+  mockScope: "page" | "context";
+  /**
+   * Latency profile for every mocked response of the page
+   * Defaults to MOCK_NETWORK_PROFILE; set per project with `use: { networkProfile: 'slow-3g' }`
+   */
+  networkProfile: NetworkProfile;
+}
+
+export interface MockFixtures {
+  /**
+   * GraphQL mocks of the page, set up from the options before the test runs
+   * Tests using it need mocks, so they are skipped in the "live" project.
+   */
+  gqlMock: GraphQLMocks;
+  /** REST mocks of the page: routes, scenario and call log; a no-op in the "live" project */
+  restMock: RestMockHandle;
+}
+
+export const test = base.extend<MockFixtureOptions & MockFixtures>({
+  mockMode: [mockMode(), { option: true }],
+  mockStrictness: [missingMockMode(), { option: true }],
+  mockScenario: [mockScenario(), { option: true }],
+  mockEndpoints: [DEFAULT_GRAPHQL_ENDPOINTS, { option: true }],
+  mockScope: ["page", { option: true }],
+  networkProfile: [networkProfile(), { option: true }],
+  // Strict-mode misses fail the test here, after it ran, with the full list attached to the report
+  page: async ({ page, networkProfile }, use, testInfo) => {
+    setNetworkProfile(page, networkProfile);
+    // Popups and new tabs get the same profile, for context-level mocks
+    page.context().on("page", (opened) => setNetworkProfile(opened, networkProfile));
+    await use(page);
+    await reportUnmatchedRequests(page, testInfo);
+  },
+  gqlMock: async ({ page, context, mockMode, mockStrictness, mockScenario, mockEndpoints, mockScope }, use, testInfo) => {
+    testInfo.skip(mockMode === "live", "Uses gqlMock: runs in the mocked project only");
+    const target = mockScope === "context" ? context : page;
+    await use(await setupGraphQLMocks(target, mockStrictness, { scenario: mockScenario, endpoints: mockEndpoints }));
+    // Page-level misses are reported by the page fixture
+    if (target === context) await reportUnmatchedRequests(context, testInfo);
+  },
+  restMock: async ({ page, context, mockMode, mockScenario, mockScope }, use) => {
+    const restMock = createRestMock(mockScope === "context" ? context : page, mockMode === "mocked");
+    if (mockScenario) await restMock.scenario(mockScenario);
+    await use(restMock);
+  },
+});
+
+/**
+ * Playwright's expect plus call-log matchers:
+ * toHaveBeenCalledTimes, toHaveBeenCalledWithVariables, toHaveBeenCalledBefore
+ */
+export const expect = baseExpect.extend(mockCallMatchers);
@@ -1,11 +1,493 @@
-import { Page } from '@playwright/test';
-import { GRAPHQL_MOCKS } from '../../mocks/graphql/mock-registry';
+import { Request } from '@playwright/test';
+import { GraphQLOperations, mockRegistry } from '../../mocks/graphql/mock-registry';
+import { GraphQLRequestBody, getOperationName, parseGraphQLRequest, readGraphQLRequestBody } from '../../mocks/graphql/graphql-document';
+import { projectResponse } from '../../mocks/graphql/response-projection';
+import { findMissingFields } from '../../mocks/graphql/mock-coverage';
+import { buildAutoMock } from '../../mocks/graphql/auto-mock';
+import { MockHandler, MockStore, createMockStore, readFromStore } from '../../mocks/graphql/mock-store';
+import { serializeResponse } from '../../mocks/graphql/mock-loader';
+import { StalenessPolicy, findStaleMock, formatStaleMock, rerecordCommand, stalenessPolicy } from '../../mocks/graphql/mock-staleness';
+import { TransportFailure, errorResponse, getTransportFailure, graphqlError } from '../../mocks/graphql/mock-errors';
+import { PersistedQueryCacheMode, createPersistedQueryCache } from './persisted-queries';
+import { MockOverrides, createMockOverrides } from './mock-overrides';
+import { MockCallLog, getMockCalls } from './mock-calls';
+import { SubscriptionMockHandle, setupGraphQLSubscriptions } from './subscription-mocks';
+import { DEFAULT_GRAPHQL_ENDPOINTS, GraphQLEndpoint, IntrospectionHandling, endpointMode } from './graphql-endpoints';
+import { UnmatchedRequest, formatUnmatchedRequest, recordUnmatchedRequest } from './unmatched-requests';
+import { LatencyOptions, createLatency, delay, recordedGraphQLTime, requestNetworkProfileLatency } from './mock-latency';
+import { MockTarget, describeRequestSource } from './mock-target';
+import { getScenario } from '../../mocks/scenarios/scenario-registry';
 
 /**
- * Sets up GraphQL request mocking for a Playwright page
+ * What to do with an operation that has no mock
+ * - strict: answer with an error and fail the test in teardown
+ * - permissive: fall back to the live server
+ * - auto: build a deterministic response from the committed schema snapshot
+ */
+export type MissingMockMode = 'strict' | 'permissive' | 'auto';
+
+export interface GraphQLMockOptions {
+  /**
+   * Automatic persisted query (APQ) cache emulation (default: 'cold')
+   * 'cold' answers unknown hashes with PersistedQueryNotFound so the client retries with the full query,
+   * 'warm' already knows the hashes recorded in the registry
+   */
+  persistedQueries?: PersistedQueryCacheMode;
+  /** Named scenario (mocks/scenarios) whose GraphQL overrides form the baseline */
+  scenario?: string;
+  /** Delay before mocked responses, per operation or for all (default: the page's network profile) */
+  latency?: LatencyOptions;
+  /**
+   * GraphQL backends to mock, each with its own URL pattern, registry, mode and introspection handling
+   * Default: the Countries API (tests/utils/graphql-endpoints.ts)
+   */
+  endpoints?: GraphQLEndpoint[];
+  /**
+   * Maximum age of recorded mocks and what serving an older one does
+   * Default: MOCK_STALENESS (mocks/graphql/mock-staleness.ts) with MOCK_MAX_AGE_DAYS / MOCK_STALE
+   */
+  staleness?: StalenessPolicy;
+}
+
+/**
+ * Handle returned by setupGraphQLMocks to adjust mocks for the current test
+ * Overrides live on the page (or context), so they reset automatically with every test.
+ * reset() goes back to the registry baseline plus the selected scenario.
+ */
+export interface GraphQLMockHandle<Operations extends Record<string, any> = GraphQLOperations>
+  extends MockOverrides<Operations> {
+  /** Operations this endpoint served so far, for toHaveBeenCalledTimes & co. */
+  calls: MockCallLog;
+  /** In-memory data seeded from the registry; served responses read from it */
+  store: MockStore;
+  /** Serves an operation from the store instead of the registry (e.g. a mutation) */
+  handle(operationName: string, handler: MockHandler): void;
+  /** Mocked WebSocket subscriptions: push extra events, inspect open subscriptions */
+  subscriptions: SubscriptionMockHandle;
+}
+
+/**
+ * Handle of the first endpoint, plus the handles of all configured endpoints by name
+ * Overrides of the first endpoint are checked against `Operations` (default: the recorded
+ * registry's GraphQLOperations); other endpoints take any operation name.
+ */
+export interface GraphQLMocks<Operations extends Record<string, any> = GraphQLOperations>
+  extends GraphQLMockHandle<Operations> {
+  /** @throws Error when no endpoint has that name */
+  endpoint(name: string): GraphQLMockHandle<Record<string, any>>;
+}
+
+/**
+ * Per-page (or per-context) state of one endpoint, shared by every request its route handles
+ */
+interface MockContext {
+  endpoint: GraphQLEndpoint;
+  mode: MissingMockMode;
+  introspection: IntrospectionHandling;
+  persistedQueries: ReturnType<typeof createPersistedQueryCache>;
+  overrides: ReturnType<typeof createMockOverrides>;
+  store: ReturnType<typeof createMockStore>;
+  handlers: Map<string, MockHandler>;
+  staleness: StalenessPolicy;
+}
+
+/**
+ * Stale mocks already warned about in this worker, so each is logged once per run
+ */
+const warnedStaleMocks = new Set<string>();
+
+/**
+ * Outcome of looking up one GraphQL operation
+ * - mocked: serve `response`
+ * - failed: answer with an HTTP error status or abort (mock-errors helpers)
+ * - passthrough: let the request reach the live server (introspection)
+ * - missing: no usable mock (`reason` says why)
+ * - persisted-query: an APQ reply (PersistedQueryNotFound, hash mismatch); not a call to the operation
+ */
+type OperationResolution =
+  | { kind: 'mocked'; operationName: string | null; variables?: Record<string, unknown> | null; response: any }
+  | { kind: 'failed'; operationName: string | null; variables?: Record<string, unknown> | null; failure: TransportFailure }
+  | { kind: 'passthrough'; operationName: string | null }
+  | { kind: 'missing'; operationName: string | null; variables?: Record<string, unknown> | null; reason: string; failsInEveryMode?: boolean }
+  | { kind: 'persisted-query'; operationName: string | null; status: number; response: any };
+
+/**
+ * Narrows a resolution to one answered with a GraphQL response body
+ */
+function isAnswered(
+  resolution: OperationResolution
+): resolution is Extract<OperationResolution, { kind: 'mocked' | 'persisted-query' }> {
+  return resolution.kind === 'mocked' || resolution.kind === 'persisted-query';
+}
+
+/**
+ * Resolves the response for a single GraphQL request body
+ * In strict mode a mock lacking requested fields counts as missing
+ */
+function resolveOperation(requestBody: GraphQLRequestBody, context: MockContext): OperationResolution {
+  const { endpoint: { registry }, mode, introspection, persistedQueries, overrides, store, handlers, staleness } = context;
+  const persisted = persistedQueries.resolve(requestBody);
+  if ('error' in persisted) {
+    const { error, status } = persisted;
+    return { kind: 'persisted-query', operationName: requestBody?.operationName ?? null, status, response: error };
+  }
+
+  const body = persisted.body;
+  const parsed = parseGraphQLRequest(body);
+  const operationName = parsed?.operationName ?? body?.operationName ?? null;
+  const variables = body?.variables;
+
+  // IntrospectionQuery (GraphQL schema introspection) as the endpoint is configured to handle it
+  if (operationName === 'IntrospectionQuery') {
+    if (introspection === 'block') {
+      const body = errorResponse(graphqlError('GraphQL introspection is not allowed', { code: 'GRAPHQL_VALIDATION_FAILED' }));
+      return { kind: 'failed', operationName, variables, failure: { kind: 'status', status: 400, body } };
+    }
+    if (introspection === 'passthrough' || !parsed) {
+      return { kind: 'passthrough', operationName };
+    }
+    return { kind: 'mocked', operationName, variables, response: buildAutoMock(parsed, variables) };
+  }
+
+  // Removed operations behave exactly like operations without a mock
+  const available = !!operationName && !overrides.isRemoved(operationName) &&
+    (registry.hasMock(operationName) || overrides.has(operationName) || handlers.has(operationName));
+
+  if (operationName && available) {
+    const handler = handlers.get(operationName);
+
+    // Only recorded mocks age: handlers and registries built in code have no manifest entry
+    const manifestEntry = handler ? undefined : registry.manifest.get(operationName);
+    const stale = manifestEntry && findStaleMock(manifestEntry, staleness);
+    if (stale) {
+      const message = `Stale mock ${formatStaleMock(stale)}. Re-record it: ${rerecordCommand(stale)}`;
+      // Not even permissive mode goes live: the policy asked for the test to fail
+      if (staleness.action === 'fail') {
+        return { kind: 'missing', operationName, variables, reason: message, failsInEveryMode: true };
+      }
+      const key = `${context.endpoint.name}:${operationName}`;
+      if (!warnedStaleMocks.has(key)) {
+        warnedStaleMocks.add(key);
+        console.log(`⚠️  ${message}`);
+      }
+    }
+
+    // Variables no recorded variant fits would get another variables set's data (e.g. India for "FR")
+    // Overrides and handlers decide the data themselves
+    if (!handler && !overrides.has(operationName) && registry.matchVariables(operationName, variables) === 'unmatched') {
+      const recorded = (registry.variants.get(operationName) ?? []).map(variant => JSON.stringify(variant.variables));
+      const message =
+        `No ${operationName} variant recorded for these variables (recorded: ${recorded.join(', ')}). ` +
+        `Record it: npm run mock:record:interactive, then npm run mock:extract`;
+      if (mode === 'strict') {
+        return { kind: 'missing', operationName, variables, reason: message };
+      }
+      console.log(`⚠️  ${message} - serving the default mock`);
+    }
+
+    const baseline = handler ? handler(store, variables ?? {}) : registry.getMock(operationName, variables);
+    const overridden = overrides.apply(operationName, baseline, variables ?? {});
+    const failure = getTransportFailure(overridden);
+    if (failure) {
+      return { kind: 'failed', operationName, variables, failure };
+    }
+
+    const mock = parsed ? readFromStore(overridden, parsed, variables, store) : overridden;
+
+    const missingFields = parsed ? findMissingFields(mock, parsed, variables, context.endpoint.schema) : [];
+
+    if (missingFields.length > 0) {
+      const message =
+        `Mock ${operationName}.mock.json is missing requested field(s): ${missingFields.join(', ')}. ` +
+        `Re-record it: npm run mock:update && npm run mock:extract`;
+      if (mode === 'strict') {
+        return { kind: 'missing', operationName, variables, reason: message };
+      }
+      console.log(`⚠️  ${message}`);
+    }
+
+    return {
+      kind: 'mocked',
+      operationName,
+      variables,
+      response: parsed ? projectResponse(mock, parsed, variables, context.endpoint.schema) : mock
+    };
+  }
+
+  if (mode === 'auto' && parsed) {
+    console.log(
+      `🧪 Auto-mocked operation: ${operationName ?? '(anonymous)'} ` +
+      `variables=${JSON.stringify(variables ?? {})} - record it with npm run mock:record:interactive`
+    );
+    return { kind: 'mocked', operationName, variables, response: buildAutoMock(parsed, variables) };
+  }
+
+  return { kind: 'missing', operationName, variables, reason: 'no mock' };
+}
+
+/**
+ * Mocks one endpoint on a page or browser context: its HTTP route and WebSocket subscriptions
+ * Each endpoint has its own overrides, handlers, store and APQ cache.
+ */
+async function setupEndpointMocks(
+  target: MockTarget,
+  endpoint: GraphQLEndpoint,
+  strictMode: boolean | MissingMockMode,
+  options: GraphQLMockOptions
+): Promise<GraphQLMockHandle<Record<string, any>>> {
+  const mode = endpointMode(endpoint, strictMode === true ? 'strict' : strictMode === false ? 'permissive' : strictMode);
+  const context: MockContext = {
+    endpoint,
+    mode,
+    introspection: endpoint.introspection ?? (mode === 'auto' ? 'mock' : 'passthrough'),
+    persistedQueries: createPersistedQueryCache(options.persistedQueries, endpoint.registry),
+    overrides: createMockOverrides(),
+    store: createMockStore(endpoint.registry),
+    handlers: new Map(),
+    staleness: options.staleness ?? stalenessPolicy(),
+  };
+  const latency = createLatency();
+  const operationLatency = options.latency?.operations ?? {};
+  // Without a default, each request is delayed by the profile of the page that sent it
+  const defaultLatency = (request: Request) => options.latency?.default ?? requestNetworkProfileLatency(request);
+  const calls = getMockCalls(target);
+
+  // Scenario overrides are the baseline that per-test overrides layer on
+  // Scenarios are written against the recorded registry, so other endpoints don't get them
+  const applyScenario = () => {
+    if (!options.scenario || endpoint.registry !== mockRegistry) return;
+    for (const [operationName, change] of Object.entries(getScenario(options.scenario).graphql ?? {})) {
+      if (change === 'remove') {
+        context.overrides.remove(operationName);
+      } else {
+        context.overrides.override(operationName, change);
+      }
+    }
+  };
+  applyScenario();
+
+  const subscriptions = await setupGraphQLSubscriptions(target, endpoint, mode);
+
+  await target.route(endpoint.url, async (route) => {
+    const request = route.request();
+    const requestBody = readGraphQLRequestBody(request.method(), request.url(), request.postData());
+
+    // Not a GraphQL operation (e.g. the GraphQL Playground page)
+    if (!requestBody) {
+      await route.continue();
+      return;
+    }
+
+    const isBatch = Array.isArray(requestBody);
+    const operations = isBatch ? requestBody : [requestBody];
+    const resolutions: OperationResolution[] = [];
+    for (const [index, operation] of operations.entries()) {
+      try {
+        resolutions.push(resolveOperation(operation, context));
+      } catch (error: any) {
+        // A throwing handler, transform override, store change or auto-mock must not leave the request hanging
+        const unmatched: UnmatchedRequest = {
+          endpoint: endpoint.name,
+          operationName: getOperationName(operation),
+          variables: operation?.variables ?? {},
+          reason: `mock handler error: ${error?.message ?? error}`,
+          url: request.url(),
+          source: await describeRequestSource(request),
+          ...(isBatch && { batchIndex: index, batchSize: operations.length }),
+        };
+        recordUnmatchedRequest(target, unmatched);
+        console.log(`❌ ${formatUnmatchedRequest(unmatched)}`);
+
+        const message = `Mock handler error for operation ${unmatched.operationName ?? '(anonymous)'}: ${error?.message ?? error}`;
+        await route.fulfill({
+          status: 500,
+          contentType: 'application/json',
+          body: JSON.stringify(errorResponse(graphqlError(message, {
+            code: 'MOCK_HANDLER_ERROR',
+            extensions: { operationName: unmatched.operationName },
+          })))
+        });
+        return;
+      }
+    }
+
+    // Permissive mode sends its misses to the live server, unless they must fail
+    const missing = resolutions.flatMap((resolution, index) =>
+      resolution.kind === 'missing' && (mode !== 'permissive' || resolution.failsInEveryMode) ? [{ resolution, index }] : []
+    );
+
+    if (missing.length > 0) {
+      const source = await describeRequestSource(request);
+      const errors = missing.map(({ resolution, index }) => {
+        const unmatched: UnmatchedRequest = {
+          endpoint: endpoint.name,
+          operationName: resolution.operationName,
+          variables: resolution.variables ?? {},
+          reason: resolution.reason,
+          url: request.url(),
+          source,
+          ...(isBatch && { batchIndex: index, batchSize: operations.length }),
+        };
+        recordUnmatchedRequest(target, unmatched);
+        console.log(`❌ ${formatUnmatchedRequest(unmatched)}`);
+
+        return graphqlError(`Missing mock for operation: ${formatUnmatchedRequest(unmatched)}`, {
+          code: 'MOCK_NOT_FOUND',
+          extensions: { operationName: resolution.operationName },
+        });
+      });
+
+      await route.fulfill({
+        status: 500,
+        contentType: 'application/json',
+        body: JSON.stringify({ data: null, errors })
+      });
+      return;
+    }
+
+    // A batch shares one HTTP response, so one transport failure fails all of it
+    const failed = resolutions.find(resolution => resolution.kind === 'failed');
+
+    // A batch is sent as one request, so it can only go live as a whole
+    const unmocked = resolutions.find(resolution => resolution.kind === 'passthrough' || resolution.kind === 'missing');
+    if (unmocked && !failed) {
+      if (unmocked.kind === 'missing') {
+        console.log(`⚠️  No mock found for: ${unmocked.operationName}, falling back to live server`);
+      }
+      await route.continue();
+      return;
+    }
+
+    resolutions.forEach((resolution, index) => {
+      if (resolution.kind !== 'mocked' && resolution.kind !== 'failed') return;
+      calls.record({
+        layer: 'graphql',
+        endpoint: endpoint.name,
+        operationName: resolution.operationName,
+        method: request.method(),
+        url: request.url(),
+        variables: resolution.variables ?? {},
+        headers: request.headers(),
+        body: operations[index],
+      });
+    });
+
+    // A batch is answered once its slowest operation is done
+    await delay(Math.max(0, ...resolutions.map(resolution => {
+      if (resolution.kind !== 'mocked' && resolution.kind !== 'failed') return 0;
+      const { operationName, variables } = resolution;
+      const setting = (operationName ? operationLatency[operationName] : undefined) ?? defaultLatency(request);
+      return latency(operationName ?? '(anonymous)', setting, () =>
+        endpoint.har ? recordedGraphQLTime(endpoint.har, operationName, variables) : undefined
+      );
+    })));
+
+    if (failed?.kind === 'failed') {
+      const { failure } = failed;
+      if (failure.kind === 'abort') {
+        await route.abort(failure.errorCode);
+        return;
+      }
+      await route.fulfill({
+        status: failure.status,
+        headers: failure.headers,
+        contentType: 'application/json',
+        body: JSON.stringify(failure.body ?? null)
+      });
+      return;
+    }
+
+    // Misses, failures and passthroughs were answered above, so every resolution left has a body
+    // Mocks served as stored reuse the body serialized when their file was loaded
+    const answered = resolutions.filter(isAnswered);
+    const bodies = answered.map(resolution => serializeResponse(resolution.response));
+    // A batch keeps 200: its APQ errors are reported per operation
+    const [single] = answered;
+    await route.fulfill({
+      status: !isBatch && single.kind === 'persisted-query' ? single.status : 200,
+      contentType: 'application/json',
+      body: isBatch ? `[${bodies.join(',')}]` : bodies[0]
+    });
+  });
+
+  const { override, remove } = context.overrides;
+  return {
+    override,
+    remove,
+    calls: calls.endpoint(endpoint.name),
+    store: context.store,
+    subscriptions,
+    handle(operationName, handler) {
+      context.handlers.set(operationName, handler);
+    },
+    reset() {
+      context.overrides.reset();
+      context.handlers.clear();
+      context.store.reset();
+      applyScenario();
+    }
+  };
+}
+
+/**
+ * Sets up GraphQL request mocking for a Playwright page or browser context
+ * 
+ * On a page, requests of the page and its iframes are mocked. On a browser context,
+ * every page it opens is covered too (popups, new tabs).
  * 
- * @param page - Playwright page object
- * @param strictMode - If true, throws error when mock is missing. If false, allows fallback to live server.
+ * Every configured endpoint (default: the Countries API) is mocked on its own,
+ * with its URL pattern, registry, missing-mock mode and introspection handling;
+ * operation names only need to be unique within an endpoint.
+ * 
+ * The operation is read from the parsed query document (operationName
+ * picks one when the document holds several operations).
+ * Responses are picked by operation name and then by variables:
+ * exact variables match, partial variables match, then the default mock.
+ * Variables that match none of an operation's recorded variants are a miss in strict mode
+ * (other modes warn and serve the default) rather than another variables set's data.
+ * The served mock is pruned to the fields the query selects, like a real server.
+ * Requested fields the mock lacks are reported by path (e.g. `country.currency`):
+ * strict mode treats the mock as missing and names the file to re-record, permissive mode warns.
+ * Recorded mocks older than the staleness policy allows are logged once per worker with their
+ * re-record command; with the 'fail' action, every mode treats them as a strict-mode miss
+ * (answered with MOCK_NOT_FOUND and reported, never sent to the live server).
+ * 
+ * Strict-mode misses are answered right away with a MOCK_NOT_FOUND GraphQL error (status 500),
+ * collected per page (or context) and reported when the test ends: the `page` and `gqlMock` fixtures
+ * from tests/utils/mock-fixtures fail the test in teardown, listing each operation, its variables
+ * and the page, iframe or worker that sent it.
+ * A handler, transform override or auto-mock that throws is answered the same way
+ * (MOCK_HANDLER_ERROR, status 500, naming the operation and the error) and reported too.
+ * 
+ * Queries sent over GET (`query` / `variables` / `extensions` URL parameters) and
+ * automatic persisted queries (only `extensions.persistedQuery.sha256Hash`) are recognised;
+ * the PersistedQueryNotFound round-trip is emulated so client retry logic runs
+ * (without logging the APQ replies as calls), and a hash mismatch is answered with 400.
+ * 
+ * Batched requests (an array of operations in one POST, as sent by Apollo / urql)
+ * are resolved element by element and answered with an array of results in order.
+ * 
+ * Overrides built with the mock-errors helpers (httpError, rateLimited, networkError)
+ * answer with an HTTP error status or abort the request; in a batch the first
+ * such failure applies to the whole request, as it shares one HTTP response.
+ * 
+ * Served responses read from an in-memory store seeded from the registry: handlers
+ * (typically for mutations) change it and later queries see the change.
+ * Each call creates a new store, so every test starts from the registry data.
+ * 
+ * Subscriptions over WebSocket (graphql-ws and subscriptions-transport-ws) are answered
+ * with the scripted events of the registry; tests can push more with `gql.subscriptions`.
+ * 
+ * Mocked responses can be delayed per operation (fixed, seeded random range, or the
+ * time recorded in the HAR); a batch waits for its slowest operation.
+ * 
+ * @param target - Playwright page, or a browser context to also cover popups and new tabs
+ * @param strictMode - If true (or 'strict'), fails the test when a mock is missing or incomplete.
+ *                     If false (or 'permissive'), allows fallback to live server.
+ *                     If 'auto', unmocked operations are answered from the schema and logged for recording.
+ * @param options - Persisted query cache emulation, named scenario, latency, endpoints and staleness policy
+ * @returns Handle of the first endpoint to override or remove mocks for the current test;
+ *          `endpoint(name)` returns the handle of any configured endpoint
  * 
  * @example
  * ```typescript
@@ -19,30 +501,112 @@ import { GRAPHQL_MOCKS } from '../../mocks/graphql/mock-registry';
  * // Permissive mode - allows fallback to live server
  * await setupGraphQLMocks(page, false);
  * ```
+ * 
+ * @example
+ * ```typescript
+ * // Auto-mock mode - test new screens offline before recording a HAR
+ * await setupGraphQLMocks(page, 'auto');
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Context-level - the app opens a popup for sign-in
+ * await setupGraphQLMocks(context);
+ * const [popup] = await Promise.all([page.waitForEvent('popup'), page.click('text=Sign in')]);
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Per-test overrides on top of the registry baseline
+ * const gql = await setupGraphQLMocks(page);
+ * gql.override('GetCountry', { data: { country: { capital: null } } });
+ * gql.override('GetCountry', (mock) => ({ ...mock, errors: [{ message: 'Partial failure' }] }));
+ * gql.remove('GetCountries'); // behaves as a missing mock
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Call assertions (expect from tests/utils/mock-fixtures)
+ * await expect(gql.calls.operation('GetCountry')).toHaveBeenCalledWithVariables({ code: 'US' });
+ * await expect(gql.calls.operation('GetCountries')).toHaveBeenCalledBefore(gql.calls.operation('GetCountry'));
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Failure simulation (mocks/graphql/mock-errors.ts)
+ * gql.override('GetCountry', fieldError(['country', 'capital'], 'Capital service down'));
+ * gql.override('GetCountries', rateLimited(30));
+ * gql.override('GetContinent', networkError('timedout'));
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Stateful flows - mutations change what later queries return
+ * gql.handle('AddFavorite', (store, { code }) => {
+ *   store.collection('favorites').push(code);
+ *   return { data: { addFavorite: store.get('Country', code as string) } };
+ * });
+ * gql.handle('RenameCountry', (store, { code, name }) => ({
+ *   data: { renameCountry: store.upsert('Country', { code, name }) }
+ * }));
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Subscriptions - scripted events from OnCountryUpdated.mock.ts, plus one on demand
+ * gql.subscriptions.emit('OnCountryUpdated', { data: { countryUpdated: { code: 'GB' } } });
+ * gql.subscriptions.complete('OnCountryUpdated');
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Two GraphQL backends - both may have a GetCountry operation
+ * const gql = await setupGraphQLMocks(page, true, {
+ *   endpoints: [
+ *     COUNTRIES_ENDPOINT,
+ *     { name: 'inventory', url: 'https://inventory.example.com/graphql', registry: inventoryRegistry, introspection: 'block' },
+ *   ]
+ * });
+ * gql.endpoint('inventory').override('GetCountry', { data: { country: { stock: 0 } } });
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Latency - spinners, races and timeouts
+ * await setupGraphQLMocks(page, true, {
+ *   latency: { default: { min: 100, max: 400, seed: 'run-1' }, operations: { GetCountries: 'recorded' } }
+ * });
+ * ```
  */
-export async function setupGraphQLMocks(page: Page, strictMode: boolean = true): Promise<void> {
-  await page.route('**/graphql', async (route) => {
-    const request = route.request();
-    const postData = request.postDataJSON();
-    const operationName = postData?.operationName;
+export async function setupGraphQLMocks<Operations extends Record<string, any> = GraphQLOperations>(
+  target: MockTarget,
+  strictMode: boolean | MissingMockMode = true,
+  options: GraphQLMockOptions = {}
+): Promise<GraphQLMocks<Operations>> {
+  const endpoints = options.endpoints ?? DEFAULT_GRAPHQL_ENDPOINTS;
+  if (endpoints.length === 0) {
+    throw new Error('❌ setupGraphQLMocks needs at least one GraphQL endpoint');
+  }
+  const names = endpoints.map(endpoint => endpoint.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`❌ GraphQL endpoint configured twice: ${duplicate}`);
+  }
 
-    // Skip IntrospectionQuery (GraphQL schema introspection)
-    if (operationName === 'IntrospectionQuery') {
-      await route.continue();
-      return;
-    }
+  // Routes added later are tried first, so register in reverse: the first endpoint listed wins
+  const handles = new Map<string, GraphQLMockHandle<Record<string, any>>>();
+  for (const endpoint of [...endpoints].reverse()) {
+    handles.set(endpoint.name, await setupEndpointMocks(target, endpoint, strictMode, options));
+  }
 
-    if (GRAPHQL_MOCKS.has(operationName)) {
-      await route.fulfill({
-        status: 200,
-        contentType: 'application/json',
-        body: JSON.stringify(GRAPHQL_MOCKS.get(operationName))
-      });
-    } else if (strictMode) {
-      throw new Error(`❌ Missing mock for operation: ${operationName}`);
-    } else {
-      console.log(`⚠️  No mock found for: ${operationName}, falling back to live server`);
-      await route.continue();
+  return {
+    ...handles.get(endpoints[0].name)!,
+    endpoint(name) {
+      const handle = handles.get(name);
+      if (!handle) {
+        throw new Error(`❌ Unknown GraphQL endpoint: ${name} (configured: ${names.join(', ')})`);
+      }
+      return handle;
     }
-  });
+  };
 }
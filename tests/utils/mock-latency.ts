@@ -0,0 +1,200 @@
+import fs from "fs";
+import type { Page, Request, Route } from "@playwright/test";
+import { createRandom } from "../../mocks/graphql/auto-mock";
+import { getOperationName } from "../../mocks/graphql/graphql-document";
+import { readHarGraphQLBody } from "../../mocks/graphql/mock-extractor";
+import { variablesKey } from "../../mocks/graphql/mock-matcher";
+
+/**
+ * How long a mocked response takes
+ * - number: fixed delay in milliseconds
+ * - { min, max, seed }: random delay in the range, repeatable for the same seed
+ * - 'recorded': replay the time the request took when its HAR entry was recorded
+ */
+export type LatencySetting = number | { min: number; max: number; seed?: string } | "recorded";
+
+export interface LatencyOptions {
+  /** Latency for operations without their own setting (default: the page's network profile) */
+  default?: LatencySetting;
+  /** GraphQL operation name → latency */
+  operations?: Record<string, LatencySetting>;
+}
+
+/**
+ * Network profiles applied to every mocked response of a page
+ * Pick one per project with `use: { networkProfile: 'slow-3g' }` or per run with MOCK_NETWORK_PROFILE
+ */
+export const NETWORK_PROFILES = {
+  none: 0,
+  "4g": { min: 40, max: 150 },
+  "slow-3g": { min: 400, max: 2000 },
+  recorded: "recorded",
+} satisfies Record<string, LatencySetting>;
+
+export type NetworkProfile = keyof typeof NETWORK_PROFILES;
+
+const DEFAULT_SEED = "playwright-mocking-lab";
+
+interface RecordedTiming {
+  method: string;
+  url: string;
+  operationName: string | null;
+  variablesKey: string | null;
+  time: number;
+}
+
+const pageProfiles = new WeakMap<Page, NetworkProfile>();
+const recordedTimings = new Map<string, RecordedTiming[]>();
+
+/**
+ * Applies a network profile to every mocked response of a page
+ * @throws Error for an unknown profile name
+ */
+export function setNetworkProfile(page: Page, profile: NetworkProfile): void {
+  if (!(profile in NETWORK_PROFILES)) {
+    const available = Object.keys(NETWORK_PROFILES).join(", ");
+    throw new Error(`❌ Unknown network profile: ${profile} (available: ${available})`);
+  }
+  pageProfiles.set(page, profile);
+}
+
+/**
+ * Latency of the network profile applied to a page, if any
+ */
+export function networkProfileLatency(page: Page): LatencySetting | undefined {
+  const profile = pageProfiles.get(page);
+  return profile ? NETWORK_PROFILES[profile] : undefined;
+}
+
+/**
+ * Latency of the network profile of the page that sent a request, if any
+ */
+export function requestNetworkProfileLatency(request: Request): LatencySetting | undefined {
+  try {
+    return networkProfileLatency(request.frame().page());
+  } catch {
+    // Service worker requests have no frame, so no page profile
+    return undefined;
+  }
+}
+
+/**
+ * Total time of a HAR entry: `time`, or the sum of its `timings` phases
+ * (`ssl` is already part of `connect`, -1 marks a phase that didn't happen)
+ */
+function harEntryTime(entry: any): number {
+  if (typeof entry.time === "number") return entry.time;
+
+  const { blocked, dns, connect, send, wait, receive } = entry.timings ?? {};
+  return [blocked, dns, connect, send, wait, receive]
+    .filter((phase): phase is number => typeof phase === "number" && phase > 0)
+    .reduce((sum, phase) => sum + phase, 0);
+}
+
+/**
+ * Reads the recorded timings of a HAR file (cached per worker)
+ */
+function loadRecordedTimings(harPath: string): RecordedTiming[] {
+  const cached = recordedTimings.get(harPath);
+  if (cached) return cached;
+
+  let timings: RecordedTiming[] = [];
+  if (fs.existsSync(harPath)) {
+    const har = JSON.parse(fs.readFileSync(harPath, "utf-8"));
+    timings = (har.log?.entries ?? []).map((entry: any) => {
+      const body = readHarGraphQLBody(entry);
+      return {
+        method: entry.request.method,
+        url: entry.request.url,
+        operationName: getOperationName(body),
+        variablesKey: body ? variablesKey(body.variables) : null,
+        time: harEntryTime(entry),
+      };
+    });
+  }
+  recordedTimings.set(harPath, timings);
+  return timings;
+}
+
+/**
+ * Recorded time of a GraphQL operation: the entry with the same variables, else the first for the operation
+ */
+export function recordedGraphQLTime(
+  harPath: string,
+  operationName: string | null,
+  variables?: Record<string, unknown> | null
+): number | undefined {
+  const entries = loadRecordedTimings(harPath).filter(entry => entry.operationName === operationName);
+  const key = variablesKey(variables);
+  return (entries.find(entry => entry.variablesKey === key) ?? entries[0])?.time;
+}
+
+/**
+ * Recorded time of a REST request: the entry with the same URL, else the first with the same path
+ */
+export function recordedRestTime(harPath: string, method: string, url: string): number | undefined {
+  const stripQuery = (value: string) => value.split("?")[0];
+  const entries = loadRecordedTimings(harPath).filter(entry => entry.method === method.toUpperCase());
+  return (
+    entries.find(entry => entry.url === url) ??
+    entries.find(entry => stripQuery(entry.url) === stripQuery(url))
+  )?.time;
+}
+
+/**
+ * Creates a latency picker for one page
+ * Random ranges get one seeded sequence per key, so a rerun sees the same delays in the same order.
+ * 'recorded' without a recorded entry means no delay.
+ */
+export function createLatency() {
+  const randoms = new Map<string, () => number>();
+
+  return (key: string, setting: LatencySetting | undefined, recorded: () => number | undefined): number => {
+    if (setting === undefined) return 0;
+    if (typeof setting === "number") return setting;
+    if (setting === "recorded") return Math.round(recorded() ?? 0);
+
+    const seed = `${setting.seed ?? DEFAULT_SEED}:${key}`;
+    if (!randoms.has(seed)) randoms.set(seed, createRandom(seed));
+    return Math.round(setting.min + randoms.get(seed)!() * (setting.max - setting.min));
+  };
+}
+
+export function delay(ms: number): Promise<void> {
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+/**
+ * Delays a REST route handler
+ *
+ * @param handler - The route handler to run once the delay has passed
+ * @param setting - Latency to apply (default: the page's network profile)
+ * @param options.har - HAR file to replay timings from when the setting (or the page's network profile) is 'recorded'
+ * @throws Error when the setting is 'recorded' without a HAR file
+ *
+ * @example
+ * ```typescript
+ * await page.route(API_PATTERN, withLatency(async (route) => {
+ *   await route.fulfill(mockedForecastResponse);
+ * }, { min: 300, max: 800, seed: "forecast" }));
+ * ```
+ */
+export function withLatency(
+  handler: (route: Route, request: Request) => Promise<unknown>,
+  setting?: LatencySetting,
+  options: { har?: string } = {}
+): (route: Route, request: Request) => Promise<void> {
+  if (setting === "recorded" && !options.har) {
+    throw new Error(`❌ Latency "recorded" needs the HAR file to replay timings from: withLatency(handler, "recorded", { har })`);
+  }
+  const latency = createLatency();
+
+  return async (route, request) => {
+    const effective = setting ?? requestNetworkProfileLatency(request);
+    const ms = latency(request.url().split("?")[0], effective, () =>
+      options.har ? recordedRestTime(options.har, request.method(), request.url()) : undefined
+    );
+    await delay(ms);
+    await handler(route, request);
+  };
+}
@@ -0,0 +1,88 @@
+import type { MockOverride, TypedMockOverride } from "../../mocks/graphql/mock-types";
+import { MockSequence, isMockSequence, sequenceStep } from "../../mocks/graphql/mock-sequence";
+
+/**
+ * Deep-merges a partial response into a mock
+ * Objects merge key by key; arrays, scalars and null replace the mock value
+ */
+export function deepMerge(target: any, partial: any): any {
+  if (partial === undefined) return target;
+  if (
+    partial === null || typeof partial !== "object" || Array.isArray(partial) ||
+    target === null || typeof target !== "object" || Array.isArray(target)
+  ) {
+    return partial;
+  }
+
+  const merged: Record<string, any> = { ...target };
+  for (const key of Object.keys(partial)) {
+    merged[key] = deepMerge(target[key], partial[key]);
+  }
+  return merged;
+}
+
+/**
+ * Per-test changes layered on top of the registry baseline
+ * `Operations` maps operation names to response types (GraphQLOperations for the recorded
+ * endpoint), so unknown operations and fields the response doesn't have are compile errors.
+ */
+export interface MockOverrides<Operations extends Record<string, any> = Record<string, any>> {
+  /** Changes an operation's response; several overrides apply in order */
+  override<Name extends keyof Operations & string>(
+    operationName: Name,
+    partialOrFn: TypedMockOverride<Operations[Name]> | MockSequence
+  ): void;
+  /** Makes an operation behave as if it had no mock */
+  remove(operationName: keyof Operations & string): void;
+  /** Drops all overrides and removals, back to the registry baseline */
+  reset(): void;
+}
+
+/**
+ * Creates an override layer for one page
+ */
+export function createMockOverrides(): MockOverrides & {
+  isRemoved(operationName: string): boolean;
+  has(operationName: string): boolean;
+  apply(operationName: string, mock: any, variables: Record<string, unknown>): any;
+} {
+  const overrides = new Map<string, (MockOverride | MockSequence)[]>();
+  const removed = new Set<string>();
+  // Calls served per sequence, so each page steps through its own copy
+  let sequenceCalls = new Map<MockSequence, number>();
+
+  return {
+    override(operationName, partialOrFn) {
+      removed.delete(operationName);
+      overrides.set(operationName, [...(overrides.get(operationName) ?? []), partialOrFn]);
+    },
+    remove(operationName) {
+      overrides.delete(operationName);
+      removed.add(operationName);
+    },
+    reset() {
+      overrides.clear();
+      removed.clear();
+      sequenceCalls = new Map();
+    },
+    isRemoved(operationName) {
+      return removed.has(operationName);
+    },
+    has(operationName) {
+      return overrides.has(operationName);
+    },
+    apply(operationName, mock, variables) {
+      return (overrides.get(operationName) ?? []).reduce((current, overrideOrSequence) => {
+        let change = overrideOrSequence;
+        if (isMockSequence(change)) {
+          const callIndex = sequenceCalls.get(change) ?? 0;
+          sequenceCalls.set(change, callIndex + 1);
+          change = sequenceStep(change.__sequence.steps, callIndex, change.__sequence.then);
+        }
+        return typeof change === "function"
+          ? change(structuredClone(current), variables)
+          : deepMerge(current, change);
+      }, mock);
+    },
+  };
+}
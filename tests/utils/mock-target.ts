@@ -0,0 +1,32 @@
+import type { BrowserContext, Page, Request } from "@playwright/test";
+
+/**
+ * What the mock layers attach to
+ * - Page: requests of the page and its iframes
+ * - BrowserContext: every page of the context, including popups and new tabs
+ */
+export type MockTarget = Page | BrowserContext;
+
+/**
+ * Names the page or worker a request came from, for miss reports
+ * e.g. `page 1 (https://app.example/)`, `popup 2 (https://app.example/login)`,
+ * `iframe https://maps.example/ in page 1 (https://app.example/)`, `service worker https://app.example/sw.js`
+ */
+export async function describeRequestSource(request: Request): Promise<string> {
+  const worker = request.serviceWorker();
+  if (worker) return `service worker ${worker.url()}`;
+
+  let frame;
+  try {
+    frame = request.frame();
+  } catch {
+    // Requests of dedicated and shared workers have no frame either
+    return "worker";
+  }
+
+  const page = frame.page();
+  const index = page.context().pages().indexOf(page) + 1;
+  const kind = (await page.opener().catch(() => null)) ? "popup" : "page";
+  const label = `${kind} ${index} (${page.url()})`;
+  return frame === page.mainFrame() ? label : `iframe ${frame.url()} in ${label}`;
+}
@@ -1,3 +1,46 @@
+import type { MissingMockMode } from "./mock-helper";
+import { NETWORK_PROFILES, NetworkProfile } from "./mock-latency";
+import type { MockMode } from "./mock-fixtures";
+
 export function useMocks(): boolean {
     return process.env.USE_MOCKS === "true";
-}
\ No newline at end of file
+}
+
+/**
+ * Mock mode for the whole run when a project doesn't set one
+ * USE_MOCKS=true → mocked, default → live
+ */
+export function mockMode(): MockMode {
+    return useMocks() ? "mocked" : "live";
+}
+
+/**
+ * Missing-mock mode for setupGraphQLMocks
+ * MOCK_FALLBACK=auto → schema auto-mocks, MOCK_STRICT=false → live server, default → strict
+ */
+export function missingMockMode(): MissingMockMode {
+    if (process.env.MOCK_FALLBACK === "auto") return "auto";
+    return process.env.MOCK_STRICT === "false" ? "permissive" : "strict";
+}
+
+/**
+ * Scenario picked for the whole run (MOCK_SCENARIO=<name>), if any
+ */
+export function mockScenario(): string | undefined {
+    return process.env.MOCK_SCENARIO || undefined;
+}
+
+/**
+ * Network profile for the whole run (MOCK_NETWORK_PROFILE=slow-3g), default none
+ * A name that isn't in NETWORK_PROFILES stops the run instead of silently mocking without latency
+ */
+export function networkProfile(): NetworkProfile {
+    const profile = process.env.MOCK_NETWORK_PROFILE;
+    if (!profile) return "none";
+
+    const available = Object.keys(NETWORK_PROFILES);
+    if (!available.includes(profile)) {
+        throw new Error(`❌ Unknown MOCK_NETWORK_PROFILE: ${profile} (available: ${available.join(", ")})`);
+    }
+    return profile as NetworkProfile;
+}
@@ -0,0 +1,66 @@
+import { GraphQLRequestBody, persistedQueryHash } from "../../mocks/graphql/graphql-document";
+import { mockRegistry } from "../../mocks/graphql/mock-registry";
+import type { MockRegistry } from "../../mocks/graphql/mock-types";
+
+/**
+ * Response a server sends for an unknown automatic persisted query (APQ) hash
+ * Clients retry with the full query and the hash
+ */
+export const PERSISTED_QUERY_NOT_FOUND = {
+  errors: [
+    { message: "PersistedQueryNotFound", extensions: { code: "PERSISTED_QUERY_NOT_FOUND" } },
+  ],
+};
+
+/**
+ * Response a server sends when the hash doesn't match the query text (with HTTP 400)
+ */
+export const PERSISTED_QUERY_HASH_MISMATCH = {
+  errors: [
+    { message: "provided sha does not match query", extensions: { code: "BAD_REQUEST" } },
+  ],
+};
+
+/**
+ * - cold: every hash is unknown until the client sends its full query (exercises the retry)
+ * - warm: hashes recorded in the endpoint's registry are known up front
+ */
+export type PersistedQueryCacheMode = "cold" | "warm";
+
+/**
+ * The query to run, or the APQ error to answer with and its HTTP status (as Apollo Server sends them)
+ */
+export type PersistedQueryResult =
+  | { body: GraphQLRequestBody }
+  | { error: typeof PERSISTED_QUERY_NOT_FOUND | typeof PERSISTED_QUERY_HASH_MISMATCH; status: number };
+
+/**
+ * Emulates the server-side APQ cache for one page
+ *
+ * Hash-only requests get their query from the cache, or PersistedQueryNotFound.
+ * Requests carrying both the query and the hash register the pair.
+ */
+export function createPersistedQueryCache(mode: PersistedQueryCacheMode = "cold", registry: MockRegistry = mockRegistry) {
+  const queries = new Map<string, string>();
+
+  return {
+    resolve(body: GraphQLRequestBody): PersistedQueryResult {
+      const hash = body.extensions?.persistedQuery?.sha256Hash;
+      if (!hash) return { body };
+
+      if (body.query) {
+        if (persistedQueryHash(body.query) !== hash) {
+          return { error: PERSISTED_QUERY_HASH_MISMATCH, status: 400 };
+        }
+        queries.set(hash, body.query);
+        return { body };
+      }
+
+      const query = queries.get(hash) ?? (mode === "warm" ? registry.findPersistedQuery(hash)?.query : undefined);
+      if (!query) {
+        return { error: PERSISTED_QUERY_NOT_FOUND, status: 200 };
+      }
+      return { body: { ...body, query } };
+    },
+  };
+}
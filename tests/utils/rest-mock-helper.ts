@@ -0,0 +1,132 @@
+import type { Request, Route } from "@playwright/test";
+import { getScenario } from "../../mocks/scenarios/scenario-registry";
+import type { RestScenarioResponse } from "../../mocks/scenarios/scenario-types";
+import { SequenceEnd, sequenceStep } from "../../mocks/graphql/mock-sequence";
+import { LatencySetting, withLatency } from "./mock-latency";
+import { MockCallLog, getMockCalls, recordCalls } from "./mock-calls";
+import type { MockTarget } from "./mock-target";
+
+type RouteHandler = (route: Route, request: Request) => Promise<unknown>;
+
+/**
+ * Answers a call the way a scenario response describes
+ */
+async function respond(route: Route, response: RestScenarioResponse): Promise<void> {
+  if (response.abort) {
+    return route.abort(response.abort);
+  }
+
+  await route.fulfill({
+    status: response.status ?? 200,
+    headers: response.headers,
+    contentType: response.json !== undefined ? "application/json" : undefined,
+    body: response.json !== undefined ? JSON.stringify(response.json) : response.body,
+  });
+}
+
+/**
+ * Runs a different handler for each call to a route: first, second, ...
+ * then repeats the last one (or cycles) - for polling, refresh and retry flows
+ *
+ * @example
+ * ```typescript
+ * // Fail twice, then succeed
+ * await page.route(API_PATTERN, inSequence([
+ *   (route) => route.abort("failed"),
+ *   (route) => route.abort("failed"),
+ *   (route) => route.fulfill(mockedForecastResponse),
+ * ]));
+ * ```
+ */
+export function inSequence(
+  handlers: RouteHandler[],
+  options: { then?: SequenceEnd } = {}
+): (route: Route, request: Request) => Promise<void> {
+  if (handlers.length === 0) {
+    throw new Error("❌ A response sequence needs at least one step");
+  }
+
+  let callIndex = 0;
+  return async (route, request) => {
+    const handler = sequenceStep(handlers, callIndex++, options.then);
+    await handler(route, request);
+  };
+}
+
+/**
+ * Registers the REST routes of a named scenario on a page (or a browser context)
+ *
+ * Routes registered later take precedence in Playwright, so call this
+ * after the spec's own page.route() calls to let the scenario win.
+ * Responses are delayed by the page's network profile, if one is set (under "recorded",
+ * routes with a `har` replay its timings), and every served call is recorded in the
+ * call log of the page or context (getMockCalls).
+ * Routes with a `sequence` answer each call with the next step.
+ *
+ * @example
+ * ```typescript
+ * await setupRestScenario(page, "weather-fetch-failed");
+ * ```
+ */
+export async function setupRestScenario(target: MockTarget, scenarioName: string): Promise<void> {
+  const scenario = getScenario(scenarioName);
+
+  for (const restRoute of scenario.rest ?? []) {
+    const steps = restRoute.sequence ?? [restRoute];
+    const serve = withLatency(recordCalls(target, inSequence(
+      steps.map(step => (route: Route) => respond(route, step)),
+      { then: restRoute.then }
+    )), undefined, { har: restRoute.har });
+
+    await target.route(restRoute.url, async (route, request) => {
+      if (restRoute.method && restRoute.method.toUpperCase() !== request.method()) {
+        return route.fallback();
+      }
+      await serve(route, request);
+    });
+  }
+}
+
+/**
+ * REST mocking of one page or browser context, as the restMock fixture (tests/utils/mock-fixtures) exposes it
+ * With mocks off (the "live" project) nothing is registered, so specs run unchanged
+ * against the real network.
+ */
+export interface RestMockHandle {
+  /** False when the project runs against the live network (`mockMode: "live"`) */
+  enabled: boolean;
+  /**
+   * Registers a route handler, delayed like every mock and recorded in `calls`
+   * `har` is the HAR file a "recorded" latency (or network profile) replays timings from
+   */
+  route(url: string | RegExp, handler: RouteHandler, options?: { latency?: LatencySetting; har?: string }): Promise<void>;
+  /** Registers the REST routes of a named scenario (see setupRestScenario) */
+  scenario(name: string): Promise<void>;
+  /** Calls the mocks of the page or context served, REST and GraphQL */
+  calls: MockCallLog;
+}
+
+/**
+ * Creates the REST mock handle of a page or browser context
+ *
+ * @example
+ * ```typescript
+ * const restMock = createRestMock(page, true);
+ * await restMock.route(API_PATTERN, (route) => route.fulfill(mockedForecastResponse));
+ * await expect(restMock.calls.url("forecast")).toHaveBeenCalledTimes(1);
+ * ```
+ */
+export function createRestMock(target: MockTarget, enabled: boolean): RestMockHandle {
+  return {
+    enabled,
+    async route(url, handler, options = {}) {
+      if (!enabled) return;
+      await target.route(url, withLatency(recordCalls(target, handler), options.latency, { har: options.har }));
+    },
+    async scenario(name) {
+      if (!enabled) return;
+      await setupRestScenario(target, name);
+    },
+    calls: getMockCalls(target),
+  };
+}
@@ -0,0 +1,265 @@
+import type { WebSocketRoute } from "@playwright/test";
+import { GraphQLRequestBody, getOperationName, parseGraphQLRequest } from "../../mocks/graphql/graphql-document";
+import type { SubscriptionEvent } from "../../mocks/graphql/mock-types";
+import { buildAutoMock } from "../../mocks/graphql/auto-mock";
+import { graphqlError } from "../../mocks/graphql/mock-errors";
+import type { MissingMockMode } from "./mock-helper";
+import type { GraphQLEndpoint } from "./graphql-endpoints";
+import type { MockTarget } from "./mock-target";
+import { getMockCalls } from "./mock-calls";
+import { delay } from "./mock-latency";
+import { recordUnmatchedRequest } from "./unmatched-requests";
+
+type SubscriptionErrors = Extract<SubscriptionEvent, { type: "error" }>["errors"];
+
+/**
+ * A subscription a page has open
+ */
+export interface ActiveSubscription {
+  id: string;
+  operationName: string | null;
+  variables: Record<string, unknown>;
+}
+
+/**
+ * Controls the mocked subscriptions of a page
+ */
+export interface SubscriptionMockHandle {
+  /** Pushes a `next` payload to every open subscription of the operation */
+  emit(operationName: string, payload: any): void;
+  /** Sends an error to every open subscription of the operation (ends them) */
+  error(operationName: string, errors: SubscriptionErrors): void;
+  /** Completes every open subscription of the operation */
+  complete(operationName: string): void;
+  /** Subscriptions open right now */
+  active(): ActiveSubscription[];
+}
+
+/**
+ * The two WebSocket protocols GraphQL clients speak
+ * - graphql-ws: `subscribe` / `next` (graphql-transport-ws subprotocol)
+ * - subscriptions-transport-ws: `start` / `data` (legacy graphql-ws subprotocol)
+ */
+type Protocol = "graphql-ws" | "subscriptions-transport-ws";
+
+interface OpenSubscription extends ActiveSubscription {
+  protocol: Protocol;
+  ws: WebSocketRoute;
+}
+
+function send(ws: WebSocketRoute, message: Record<string, unknown>): void {
+  ws.send(JSON.stringify(message));
+}
+
+/**
+ * Sends one scripted event in the subscription's protocol
+ * Returns false once the event ended the subscription
+ */
+function sendEvent(subscription: OpenSubscription, event: SubscriptionEvent): boolean {
+  const { ws, id, protocol } = subscription;
+  const legacy = protocol === "subscriptions-transport-ws";
+
+  if (event.type === "next") {
+    send(ws, { id, type: legacy ? "data" : "next", payload: event.payload });
+    return true;
+  }
+  if (event.type === "error") {
+    send(ws, { id, type: "error", payload: legacy ? event.errors[0] : event.errors });
+    return false;
+  }
+  send(ws, { id, type: "complete" });
+  return false;
+}
+
+/**
+ * Events of a subscription built from the schema (auto mode): one payload, then complete
+ * Returns undefined when the request can't be parsed
+ */
+function autoMockEvents(payload: GraphQLRequestBody): SubscriptionEvent[] | undefined {
+  const parsed = parseGraphQLRequest(payload);
+  if (!parsed) return undefined;
+
+  const response = buildAutoMock(parsed, payload?.variables);
+  return response.errors
+    ? [{ type: "error", errors: response.errors }]
+    : [{ type: "next", payload: response }, { type: "complete" }];
+}
+
+/**
+ * Mocks the GraphQL subscriptions of one endpoint over WebSocket on a page (or a browser context)
+ *
+ * Speaks both graphql-ws and subscriptions-transport-ws: acknowledges
+ * `connection_init`, answers pings, matches `subscribe` / `start` by operation name
+ * and plays the operation's scripted events from the endpoint's registry (`*Events` in the mock file).
+ * Subscriptions without events, like unmocked HTTP operations:
+ * - strict: get an error and are reported as unmatched when the test ends
+ * - permissive: are relayed to the live server over the same socket
+ * - auto: get one payload built from the schema
+ *
+ * Usually set up through setupGraphQLMocks, which exposes the handle as `gql.subscriptions`.
+ */
+export async function setupGraphQLSubscriptions(
+  target: MockTarget,
+  endpoint: GraphQLEndpoint,
+  mode: MissingMockMode
+): Promise<SubscriptionMockHandle> {
+  const open = new Map<string, OpenSubscription>();
+  let connections = 0;
+
+  const forOperation = (operationName: string) =>
+    Array.from(open.entries()).filter(([, subscription]) => subscription.operationName === operationName);
+
+  const deliver = (operationName: string, event: SubscriptionEvent) => {
+    for (const [key, subscription] of forOperation(operationName)) {
+      if (!sendEvent(subscription, event)) open.delete(key);
+    }
+  };
+
+  await target.routeWebSocket(endpoint.url, (ws) => {
+    const connection = ++connections;
+    let protocol: Protocol = "graphql-ws";
+    // Connected on the first subscription relayed to the live server
+    let server: WebSocketRoute | undefined;
+    let connectionInit: string | Buffer | undefined;
+    const relayed = new Set<string>();
+
+    /**
+     * Hands one subscription to the live server; the page already got our connection_ack
+     */
+    const relay = (id: string, raw: string | Buffer) => {
+      if (!server) {
+        server = ws.connectToServer();
+        server.onMessage((message) => {
+          try {
+            if (JSON.parse(message.toString())?.type === "connection_ack") return;
+          } catch {
+            // Not JSON: pass it on as is
+          }
+          ws.send(message);
+        });
+        if (connectionInit !== undefined) server.send(connectionInit);
+      }
+      relayed.add(id);
+      server.send(raw);
+    };
+
+    const subscribe = async (id: string, payload: GraphQLRequestBody, raw: string | Buffer) => {
+      const operationName = getOperationName(payload);
+      const variables = payload?.variables ?? {};
+      const key = `${connection}:${id}`;
+      let events = operationName ? endpoint.registry.getSubscriptionEvents(operationName) : undefined;
+
+      if (!events && mode === "permissive") {
+        console.log(`⚠️  No subscription mock for: ${operationName ?? "(anonymous)"}, relaying it to the live server`);
+        relay(id, raw);
+        return;
+      }
+      if (!events && mode === "auto") {
+        events = autoMockEvents(payload);
+        if (events) {
+          console.log(
+            `🧪 Auto-mocked subscription: ${operationName ?? "(anonymous)"} ` +
+            `variables=${JSON.stringify(variables)} - add its events to ${operationName}.mock.json`
+          );
+        }
+      }
+
+      if (!events) {
+        const reason = "no subscription events";
+        if (mode === "strict") {
+          recordUnmatchedRequest(target, { endpoint: endpoint.name, operationName, variables, reason, url: ws.url() });
+        }
+        console.log(`❌ No subscription mock for: ${operationName ?? "(anonymous)"} - answered with an error`);
+        const error = graphqlError(`Missing mock for subscription: ${operationName ?? "(anonymous)"}`, {
+          code: "MOCK_NOT_FOUND",
+        });
+        send(ws, { id, type: "error", payload: protocol === "graphql-ws" ? [error] : error });
+        return;
+      }
+
+      getMockCalls(target).record({
+        layer: "graphql",
+        endpoint: endpoint.name,
+        operationName,
+        method: "WS",
+        url: ws.url(),
+        variables,
+        headers: {},
+        body: payload,
+      });
+
+      const subscription: OpenSubscription = { id, operationName, variables, protocol, ws };
+      open.set(key, subscription);
+
+      for (const event of events) {
+        await delay(event.delay ?? 0);
+        // The client may have unsubscribed while we waited
+        if (open.get(key) !== subscription) return;
+        if (!sendEvent(subscription, event)) {
+          open.delete(key);
+          return;
+        }
+      }
+    };
+
+    ws.onMessage((raw) => {
+      let message: any;
+      try {
+        message = JSON.parse(raw.toString());
+      } catch {
+        return;
+      }
+
+      switch (message?.type) {
+        case "connection_init":
+          connectionInit = raw;
+          send(ws, { type: "connection_ack" });
+          break;
+        case "ping":
+          send(ws, { type: "pong" });
+          break;
+        case "subscribe":
+          void subscribe(message.id, message.payload, raw);
+          break;
+        case "start":
+          protocol = "subscriptions-transport-ws";
+          void subscribe(message.id, message.payload, raw);
+          break;
+        case "complete":
+        case "stop":
+          if (relayed.delete(message.id)) server?.send(raw);
+          open.delete(`${connection}:${message.id}`);
+          break;
+        case "connection_terminate":
+          void server?.close();
+          ws.close();
+          break;
+        default:
+          // e.g. the pong answering a live server's ping
+          server?.send(raw);
+      }
+    });
+
+    ws.onClose(() => {
+      void server?.close();
+      for (const key of Array.from(open.keys())) {
+        if (key.startsWith(`${connection}:`)) open.delete(key);
+      }
+    });
+  });
+
+  return {
+    emit(operationName, payload) {
+      deliver(operationName, { type: "next", payload });
+    },
+    error(operationName, errors) {
+      deliver(operationName, { type: "error", errors });
+    },
+    complete(operationName) {
+      deliver(operationName, { type: "complete" });
+    },
+    active() {
+      return Array.from(open.values()).map(({ id, operationName, variables }) => ({ id, operationName, variables }));
+    },
+  };
+}
@@ -0,0 +1,69 @@
+import type { TestInfo } from "@playwright/test";
+import type { MockTarget } from "./mock-target";
+
+/**
+ * A GraphQL request strict mode could not serve
+ */
+export interface UnmatchedRequest {
+  /** GraphQL endpoint the request was sent to (see tests/utils/graphql-endpoints.ts) */
+  endpoint?: string;
+  operationName: string | null;
+  variables: Record<string, unknown>;
+  /** Why it wasn't served, e.g. "no mock" or the fields the mock lacks */
+  reason: string;
+  url: string;
+  /** Page, iframe or worker that sent the request, e.g. "popup 2 (https://app.example/login)" */
+  source?: string;
+  /** Position in a batched request */
+  batchIndex?: number;
+  batchSize?: number;
+}
+
+const unmatchedRequests = new WeakMap<MockTarget, UnmatchedRequest[]>();
+
+/**
+ * Collects a strict-mode miss for the page's report
+ */
+export function recordUnmatchedRequest(target: MockTarget, request: UnmatchedRequest): void {
+  unmatchedRequests.set(target, [...getUnmatchedRequests(target), request]);
+}
+
+/**
+ * Strict-mode misses collected on a page (or a browser context) so far, in request order
+ */
+export function getUnmatchedRequests(target: MockTarget): UnmatchedRequest[] {
+  return unmatchedRequests.get(target) ?? [];
+}
+
+/**
+ * One line per miss: endpoint, operation, variables, batch position, reason and source
+ */
+export function formatUnmatchedRequest(request: UnmatchedRequest): string {
+  const batch = request.batchIndex !== undefined ? ` (#${request.batchIndex} of batch of ${request.batchSize})` : "";
+  const endpoint = request.endpoint ? `[${request.endpoint}] ` : "";
+  const source = request.source ? ` [from ${request.source}]` : "";
+  return `${endpoint}${request.operationName ?? "(anonymous)"} variables=${JSON.stringify(request.variables)}${batch} - ${request.reason}${source}`;
+}
+
+/**
+ * Fails the test when the page (or the browser context) had strict-mode misses
+ * The list is attached to the Playwright report as `unmatched-graphql-requests`.
+ * Called in the teardown of the page and gqlMock fixtures (tests/utils/mock-fixtures.ts).
+ *
+ * @throws Error listing every missing operation with its variables
+ */
+export async function reportUnmatchedRequests(target: MockTarget, testInfo: TestInfo): Promise<void> {
+  const requests = getUnmatchedRequests(target);
+  if (requests.length === 0) return;
+
+  const report = requests.map(request => `  - ${formatUnmatchedRequest(request)}`).join("\n");
+  await testInfo.attach("unmatched-graphql-requests", {
+    body: JSON.stringify(requests, null, 2),
+    contentType: "application/json",
+  });
+
+  throw new Error(
+    `❌ ${requests.length} GraphQL request(s) had no usable mock:\n${report}\n` +
+    `Record them with npm run mock:record:interactive, or re-record with npm run mock:update && npm run mock:extract`
+  );
+}